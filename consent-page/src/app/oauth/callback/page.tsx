@@ -18,6 +18,8 @@ function CallbackHandler() {
         const state = urlParams.get("mcp_state") || "";
         const code_challenge = urlParams.get("mcp_code_challenge") || "";
         const code_challenge_method = urlParams.get("mcp_code_challenge_method") || "";
+        const scope = urlParams.get("mcp_scope") || undefined;
+        const resource = urlParams.get("mcp_resource") || undefined;
 
         if (!redirect_uri) {
           throw new Error("Missing redirect_uri. Please start the authorization flow again.");
@@ -43,23 +45,48 @@ function CallbackHandler() {
         // Get the access token from the URL hash (Supabase returns it in the fragment)
         const hashParams = new URLSearchParams(window.location.hash.substring(1));
         const accessToken = hashParams.get("access_token");
+        const refreshToken = hashParams.get("refresh_token");
 
-        if (!accessToken) {
-          throw new Error("No access token received from authentication");
+        if (!accessToken || !refreshToken) {
+          throw new Error("No session received from authentication");
         }
 
-        // Generate an authorization code
-        // In a real implementation, you would:
-        // 1. Store this code in a database with the associated user and PKCE params
-        // 2. Set an expiration time (typically 10 minutes)
-        // For now, we'll encode the access token as the code (simplified)
-        const authCode = btoa(JSON.stringify({
-          access_token: accessToken,
-          client_id: client_id,
-          code_challenge: code_challenge,
-          code_challenge_method: code_challenge_method,
-          created_at: Date.now(),
-        }));
+        if (!code_challenge) {
+          throw new Error("Missing code_challenge. The application must use PKCE.");
+        }
+
+        // Exchange the session for a single-use authorization code. The code is
+        // stored server-side with the PKCE challenge, so the session tokens
+        // never end up in the client's redirect URL.
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/oauth/codes`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              client_id,
+              redirect_uri,
+              code_challenge,
+              code_challenge_method: code_challenge_method || "S256",
+              scope,
+              resource,
+              refresh_token: refreshToken,
+            }),
+          }
+        );
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error_description || "Failed to issue authorization code");
+        }
+
+        const authCode: string = result.code;
+
+        // Drop the tokens from the address bar before leaving the page
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
 
         // Redirect back to the MCP client with the authorization code
         const redirectUrl = new URL(redirect_uri);
@@ -0,0 +1,230 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useState } from "react";
+import SignIn from "@/components/SignIn";
+import { supabase } from "@/lib/supabase";
+
+interface Connection {
+  clientId: string;
+  name: string;
+  logoUri?: string;
+  scopes: string[];
+  firstUsedAt?: string;
+  lastUsedAt?: string;
+  /** Whether Supabase Auth holds a grant for the client, as opposed to the oauth function only */
+  hasSupabaseGrant: boolean;
+}
+
+interface ClientActivity {
+  client_id: string;
+  client_name: string | null;
+  logo_uri: string | null;
+  scope: string | null;
+  first_used_at: string;
+  last_used_at: string;
+}
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+function ConnectionsList() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [user, setUser] = useState<{ email?: string } | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [sessionVersion, setSessionVersion] = useState(0);
+
+  useEffect(() => {
+    async function init() {
+      try {
+        // Check if user is logged in
+        const { data: { session } } = await supabase.auth.getSession();
+
+        if (!session) {
+          setNeedsSignIn(true);
+          return;
+        }
+
+        setUser({ email: session.user.email });
+
+        // Grants held by Supabase Auth, plus last-use data recorded by the MCP functions
+        const [{ data: grants, error: grantsError }, { data: activity, error: activityError }] = await Promise.all([
+          supabase.auth.oauth.listGrants(),
+          supabase.from("oauth_client_activity").select(),
+        ]);
+
+        if (grantsError) throw grantsError;
+        if (activityError) throw activityError;
+
+        const activityByClient = new Map(
+          ((activity ?? []) as ClientActivity[]).map((row) => [row.client_id, row])
+        );
+
+        const merged: Connection[] = (grants ?? []).map((grant) => {
+          const used = activityByClient.get(grant.client.id);
+          activityByClient.delete(grant.client.id);
+          return {
+            clientId: grant.client.id,
+            name: grant.client.name || grant.client.id,
+            logoUri: grant.client.logo_uri || undefined,
+            scopes: grant.scopes,
+            firstUsedAt: used?.first_used_at ?? grant.granted_at,
+            lastUsedAt: used?.last_used_at,
+            hasSupabaseGrant: true,
+          };
+        });
+
+        // Clients authorized through the oauth function only
+        for (const row of activityByClient.values()) {
+          merged.push({
+            clientId: row.client_id,
+            name: row.client_name || row.client_id,
+            logoUri: row.logo_uri || undefined,
+            scopes: row.scope?.split(" ").filter(Boolean) ?? [],
+            firstUsedAt: row.first_used_at,
+            lastUsedAt: row.last_used_at,
+            hasSupabaseGrant: false,
+          });
+        }
+
+        setConnections(merged);
+      } catch (err) {
+        console.error("Error loading connections:", err);
+        setError(err instanceof Error ? err.message : "Failed to load connected applications");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    init();
+  }, [sessionVersion]);
+
+  const handleRevoke = async (connection: Connection) => {
+    setRevoking(connection.clientId);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Session expired, reload the page to sign in again");
+
+      if (connection.hasSupabaseGrant) {
+        const { error } = await supabase.auth.oauth.revokeGrant({ clientId: connection.clientId });
+        if (error) throw error;
+      }
+
+      // Revoke tokens the MCP functions still accept until they expire
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/oauth/grants/revoke`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${session.access_token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ client_id: connection.clientId }),
+        }
+      );
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error_description || "Failed to revoke access");
+      }
+
+      setConnections((current) => current.filter((c) => c.clientId !== connection.clientId));
+    } catch (err) {
+      console.error("Error revoking grant:", err);
+      setError(err instanceof Error ? err.message : "Failed to revoke access");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  if (needsSignIn) {
+    return (
+      <SignIn
+        onSignedIn={() => {
+          setNeedsSignIn(false);
+          setLoading(true);
+          setSessionVersion((version) => version + 1);
+        }}
+      />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="bg-white rounded-xl shadow-lg p-10 max-w-md w-full text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading connected applications...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-5">
+      <div className="bg-white rounded-xl shadow-lg p-10 max-w-2xl w-full">
+        {user?.email && (
+          <p className="text-sm text-gray-500 mb-4">
+            Logged in as {user.email}
+          </p>
+        )}
+
+        <h1 className="text-2xl font-semibold text-gray-800 mb-2">
+          Connected Applications
+        </h1>
+        <p className="text-gray-600 mb-6">
+          Applications you have allowed to use MCP tools on your behalf.
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-500 mb-4">{error}</p>
+        )}
+
+        {connections.length === 0 ? (
+          <p className="text-gray-600">No applications have access to your account.</p>
+        ) : (
+          <ul className="space-y-4">
+            {connections.map((connection) => (
+              <li key={connection.clientId} className="bg-gray-50 rounded-lg p-4 flex gap-4">
+                {connection.logoUri ? (
+                  // Client logos can be hosted anywhere, so they skip the image optimizer
+                  <Image src={connection.logoUri} alt="" width={40} height={40} unoptimized className="h-10 w-10 rounded" />
+                ) : (
+                  <div className="h-10 w-10 rounded bg-gray-200 flex items-center justify-center text-gray-500 font-semibold">
+                    {connection.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-800 font-medium break-all">{connection.name}</p>
+                  <p className="text-sm text-gray-600 break-all">
+                    {connection.scopes.length > 0 ? connection.scopes.join(", ") : "No scopes"}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    First used {formatDate(connection.firstUsedAt)} · Last used {formatDate(connection.lastUsedAt)}
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => handleRevoke(connection)}
+                  disabled={revoking !== null}
+                  className="self-center py-2 px-4 rounded-lg border border-gray-300 text-gray-600 font-medium hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                  {revoking === connection.clientId ? "..." : "Revoke"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ConnectionsPage() {
+  return <ConnectionsList />;
+}
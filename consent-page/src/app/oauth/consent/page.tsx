@@ -2,21 +2,83 @@
 
 import { useSearchParams } from "next/navigation";
 import { Suspense, useEffect, useState } from "react";
-import { createClient } from "@supabase/supabase-js";
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface AuthorizationDetails {
-  client?: {
-    client_id?: string;
-    client_name?: string;
-    logo_uri?: string;
-  };
-  scopes?: string[];
-  redirect_uri?: string;
+import type { OAuthAuthorizationDetails } from "@supabase/supabase-js";
+import SignIn from "@/components/SignIn";
+import { fetchScopeCatalogue, groupScopes, localize, type ScopeCatalogue, type ScopeRisk } from "@/lib/scopes";
+import { supabase } from "@/lib/supabase";
+
+/** Choices for how long an approval is remembered; 0 means ask every time */
+const REMEMBER_OPTIONS = [
+  { days: 0, label: "Don't remember" },
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+const RISK_STYLES: Record<ScopeRisk, { label: string; className: string }> = {
+  low: { label: "Low risk", className: "text-gray-600 bg-gray-200" },
+  medium: { label: "Medium risk", className: "text-amber-800 bg-amber-100" },
+  high: { label: "High risk", className: "text-red-700 bg-red-100" },
+};
+
+/** Clients registered more recently than this are flagged as new */
+const NEW_CLIENT_DAYS = 7;
+
+/**
+ * What the oauth function knows about a client, see GET /oauth/clients/:clientId
+ */
+interface ClientTrust {
+  client_name: string;
+  client_uri: string | null;
+  redirect_hosts: string[];
+  created_at: string;
+  verified: boolean;
+  policy_errors: string[];
+}
+
+/**
+ * Look up whether a client is verified and meets the registration policy.
+ * Returns null when that can't be determined.
+ */
+async function getClientTrust(clientId: string, accessToken: string): Promise<ClientTrust | null> {
+  try {
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/oauth/clients/${encodeURIComponent(clientId)}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+    if (!response.ok) {
+      throw new Error(`Client lookup failed with ${response.status}`);
+    }
+    return await response.json();
+  } catch (err) {
+    console.error("Error loading client details:", err);
+    return null;
+  }
+}
+
+function parseScopes(scope?: string) {
+  return scope?.split(" ").filter(Boolean) ?? [];
+}
+
+/**
+ * Scopes the user previously approved for a client and asked to be remembered
+ */
+async function getRememberedScopes(clientId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("oauth_consents")
+    .select("scopes")
+    .eq("client_id", clientId)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    // Fall back to asking; remembered consent is only a convenience
+    console.error("Error loading remembered consent:", error);
+    return [];
+  }
+
+  return data?.scopes ?? [];
 }
 
 function ConsentForm() {
@@ -25,9 +87,18 @@ function ConsentForm() {
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [authDetails, setAuthDetails] = useState<AuthorizationDetails | null>(null);
-  const [user, setUser] = useState<{ email?: string } | null>(null);
+  const [authDetails, setAuthDetails] = useState<OAuthAuthorizationDetails | null>(null);
+  const [user, setUser] = useState<{ id: string; email?: string } | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [rememberedScopes, setRememberedScopes] = useState<string[]>([]);
+  const [rememberDays, setRememberDays] = useState(0);
+  const [clientTrust, setClientTrust] = useState<ClientTrust | null>(null);
+  const [scopeCatalogue, setScopeCatalogue] = useState<ScopeCatalogue | null>(null);
+  // Requested scopes the user unchecked; required scopes can't be declined
+  const [declinedScopes, setDeclinedScopes] = useState<string[]>([]);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  // Bumped after signing in on the page, to load the request as the new user
+  const [sessionVersion, setSessionVersion] = useState(0);
 
   useEffect(() => {
     async function init() {
@@ -37,24 +108,20 @@ function ConsentForm() {
         return;
       }
 
+      // Keep the spinner up while the browser is sent back to the client
+      let redirecting = false;
+
       try {
         // Check if user is logged in
         const { data: { session } } = await supabase.auth.getSession();
 
         if (!session) {
-          // User not logged in - redirect to Google OAuth, then back here
-          const currentUrl = window.location.href;
-          const { error } = await supabase.auth.signInWithOAuth({
-            provider: "google",
-            options: {
-              redirectTo: currentUrl,
-            },
-          });
-          if (error) throw error;
+          // User not logged in - sign in, then come back to this authorization_id
+          setNeedsSignIn(true);
           return;
         }
 
-        setUser({ email: session.user.email });
+        setUser({ id: session.user.id, email: session.user.email });
 
         // Get authorization details from Supabase
         const { data, error: authError } = await supabase.auth.oauth.getAuthorizationDetails(
@@ -65,23 +132,123 @@ function ConsentForm() {
           throw authError;
         }
 
-        setAuthDetails(data as unknown as AuthorizationDetails);
+        // Supabase already has consent for this request
+        if (data.redirect_url) {
+          redirecting = true;
+          window.location.assign(data.redirect_url);
+          return;
+        }
+
+        const [trust, remembered, catalogue] = await Promise.all([
+          getClientTrust(data.client.id, session.access_token),
+          getRememberedScopes(data.client.id),
+          fetchScopeCatalogue(),
+        ]);
+
+        // Skip the form when every requested scope was approved and remembered,
+        // unless the client no longer meets the registration policy
+        const requested = parseScopes(data.scope);
+        if (
+          trust?.policy_errors.length === 0 &&
+          remembered.length > 0 &&
+          requested.every((scope) => remembered.includes(scope))
+        ) {
+          const { error: approveError } = await supabase.auth.oauth.approveAuthorization(authorizationId);
+          if (approveError) throw approveError;
+          // Supabase will handle the redirect automatically
+          redirecting = true;
+          return;
+        }
+
+        setClientTrust(trust);
+        setScopeCatalogue(catalogue);
+        setRememberedScopes(remembered);
+        setAuthDetails(data);
       } catch (err) {
         console.error("Error initializing consent page:", err);
         setError(err instanceof Error ? err.message : "Failed to load authorization details");
       } finally {
-        setLoading(false);
+        if (!redirecting) setLoading(false);
       }
     }
 
     init();
-  }, [authorizationId]);
+  }, [authorizationId, sessionVersion]);
+
+  const handleSignedIn = () => {
+    setNeedsSignIn(false);
+    setLoading(true);
+    setSessionVersion((version) => version + 1);
+  };
+
+  const handleSwitchAccount = async () => {
+    setSubmitting(true);
+    // Only end the session in this browser; the user's other sessions are unaffected
+    const { error } = await supabase.auth.signOut({ scope: "local" });
+    setSubmitting(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setUser(null);
+    setAuthDetails(null);
+    setNeedsSignIn(true);
+  };
+
+  const grantedScopes = parseScopes(authDetails?.scope).filter((scope) => !declinedScopes.includes(scope));
+
+  const toggleScope = (scope: string) => {
+    setDeclinedScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  /**
+   * Record which scopes the user kept. Supabase Auth approves the request as a
+   * whole, so the MCP functions narrow the token's scopes to this set. The
+   * client's name and logo are kept with it for the connections page.
+   */
+  const recordScopeGrant = async () => {
+    if (!authDetails || !user) return;
+
+    const { error } = await supabase.from("oauth_scope_grants").upsert({
+      user_id: user.id,
+      client_id: authDetails.client.id,
+      scopes: grantedScopes,
+      granted_at: new Date().toISOString(),
+      client_name: authDetails.client.name || null,
+      logo_uri: authDetails.client.logo_uri || null,
+    });
+
+    // Fatal: approving without it would grant the scopes the user declined
+    if (error) throw error;
+  };
+
+  const rememberConsent = async () => {
+    if (!authDetails || !user || rememberDays === 0) return;
+
+    const now = Date.now();
+    const { error } = await supabase.from("oauth_consents").upsert({
+      user_id: user.id,
+      client_id: authDetails.client.id,
+      scopes: [...new Set([...rememberedScopes, ...grantedScopes])],
+      granted_at: new Date(now).toISOString(),
+      expires_at: new Date(now + rememberDays * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    if (error) {
+      // Not fatal: the user will simply be asked again next time
+      console.error("Error remembering consent:", error);
+    }
+  };
 
   const handleAllow = async () => {
     if (!authorizationId) return;
 
     setSubmitting(true);
     try {
+      await recordScopeGrant();
+      await rememberConsent();
       const { error } = await supabase.auth.oauth.approveAuthorization(authorizationId);
       if (error) throw error;
       // Supabase will handle the redirect automatically
@@ -107,6 +274,10 @@ function ConsentForm() {
     }
   };
 
+  if (needsSignIn) {
+    return <SignIn onSignedIn={handleSignedIn} />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -130,50 +301,156 @@ function ConsentForm() {
     );
   }
 
-  const clientName = authDetails?.client?.client_name || authDetails?.client?.client_id || "Unknown Application";
-  const scopes = authDetails?.scopes || [];
+  const clientName = authDetails?.client?.name || authDetails?.client?.id || "Unknown Application";
+  const requestedScopes = parseScopes(authDetails?.scope);
+  // Returning clients only need consent for what they haven't been granted yet
+  const isIncremental = rememberedScopes.length > 0;
+  const scopes = requestedScopes.filter((scope) => !rememberedScopes.includes(scope));
+  const previousScopes = requestedScopes.filter((scope) => rememberedScopes.includes(scope));
+  const policyErrors = clientTrust?.policy_errors ?? [];
+  const registeredDaysAgo = clientTrust
+    ? Math.floor((Date.now() - new Date(clientTrust.created_at).getTime()) / (24 * 60 * 60 * 1000))
+    : null;
+  const isNewClient = registeredDaysAgo !== null && registeredDaysAgo < NEW_CLIENT_DAYS;
 
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center p-5">
       <div className="bg-white rounded-xl shadow-lg p-10 max-w-md w-full">
         {user?.email && (
           <p className="text-sm text-gray-500 mb-4">
-            Logged in as {user.email}
+            Logged in as {user.email}.{" "}
+            <button
+              onClick={handleSwitchAccount}
+              disabled={submitting}
+              className="text-green-600 hover:underline disabled:opacity-50"
+            >
+              Not you? Switch account
+            </button>
           </p>
         )}
 
         <h1 className="text-2xl font-semibold text-gray-800 mb-2">
           Authorize Application
         </h1>
-        <p className="text-gray-600 mb-6 break-all">{clientName}</p>
+        <p className="text-gray-600 mb-2 break-all flex items-center gap-2">
+          {clientName}
+          {clientTrust?.verified && (
+            <span className="text-xs font-medium text-green-700 bg-green-100 rounded px-2 py-0.5">
+              Verified
+            </span>
+          )}
+        </p>
+        {clientTrust && clientTrust.redirect_hosts.length > 0 && (
+          <p className="text-sm text-gray-500 mb-6 break-all">
+            Will return you to {clientTrust.redirect_hosts.join(", ")}
+          </p>
+        )}
+
+        {policyErrors.length > 0 ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-4 mb-6">
+            <p className="font-semibold mb-1">This application cannot be authorized</p>
+            <p>Its registration does not meet this server&apos;s policy: {policyErrors.join("; ")}</p>
+          </div>
+        ) : (
+          !clientTrust?.verified && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-lg p-4 mb-6">
+              <p className="font-semibold mb-1">
+                {clientTrust ? "Unverified application" : "This application could not be checked"}
+              </p>
+              <p>
+                Anyone can register an application with any name. Only allow access if you started
+                this sign-in and trust {clientTrust?.redirect_hosts.join(", ") || "this application"}.
+                {isNewClient &&
+                  ` It was registered ${registeredDaysAgo === 0 ? "today" : `${registeredDaysAgo} day(s) ago`}.`}
+              </p>
+            </div>
+          )
+        )}
 
         <div className="bg-gray-50 rounded-lg p-4 mb-6">
           <h2 className="text-sm text-gray-600 mb-3">
-            This application is requesting access to:
+            {isIncremental
+              ? "This application is requesting additional access to:"
+              : "This application is requesting access to:"}
           </h2>
-          <ul className="space-y-2">
-            {scopes.length > 0 ? (
-              scopes.map((scope) => (
-                <li key={scope} className="flex items-center gap-2 text-gray-800">
-                  <span className="text-green-500 font-bold">*</span>
-                  {scope}
-                </li>
-              ))
-            ) : (
-              <>
-                <li className="flex items-center gap-2 text-gray-800">
-                  <span className="text-green-500 font-bold">*</span>
-                  Access your account information
-                </li>
-                <li className="flex items-center gap-2 text-gray-800">
-                  <span className="text-green-500 font-bold">*</span>
-                  Use MCP tools on your behalf
-                </li>
-              </>
-            )}
-          </ul>
+          {scopes.length > 0 ? (
+            <div className="space-y-4">
+              {groupScopes(scopes, scopeCatalogue).map((group) => (
+                <div key={group.key}>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {group.title}
+                  </h3>
+                  <ul className="space-y-3">
+                    {group.scopes.map((definition) => (
+                      <li key={definition.scope}>
+                        <label className="flex gap-3 text-gray-800">
+                          <input
+                            type="checkbox"
+                            checked={definition.required || !declinedScopes.includes(definition.scope)}
+                            disabled={definition.required || submitting}
+                            onChange={() => toggleScope(definition.scope)}
+                            className="mt-1 h-4 w-4 accent-green-500"
+                          />
+                          <div className="min-w-0">
+                            <p className="flex flex-wrap items-center gap-2">
+                              {localize(definition.title)}
+                              <span className={`text-xs font-medium rounded px-2 py-0.5 ${RISK_STYLES[definition.risk].className}`}>
+                                {RISK_STYLES[definition.risk].label}
+                              </span>
+                              {definition.required && (
+                                <span className="text-xs font-medium text-gray-600 bg-gray-200 rounded px-2 py-0.5">
+                                  Required
+                                </span>
+                              )}
+                              {isIncremental && (
+                                <span className="text-xs font-medium text-green-700 bg-green-100 rounded px-2 py-0.5">
+                                  New
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-sm text-gray-600">{localize(definition.description)}</p>
+                            {definition.tools && definition.tools.length > 0 && (
+                              <p className="text-xs text-gray-500 mt-1 break-words">
+                                Tools: {definition.tools.join(", ")}
+                              </p>
+                            )}
+                          </div>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-800">No specific permissions beyond signing you in.</p>
+          )}
+          {previousScopes.length > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Already allowed:{" "}
+              {groupScopes(previousScopes, scopeCatalogue)
+                .flatMap((group) => group.scopes.map((definition) => localize(definition.title)))
+                .join(", ")}
+            </p>
+          )}
         </div>
 
+        <label className="flex items-center justify-between gap-3 text-sm text-gray-600 mb-6">
+          Remember this decision
+          <select
+            value={rememberDays}
+            onChange={(e) => setRememberDays(Number(e.target.value))}
+            disabled={submitting}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-gray-800"
+          >
+            {REMEMBER_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
         <div className="flex gap-3">
           <button
             onClick={handleDeny}
@@ -184,7 +461,7 @@ function ConsentForm() {
           </button>
           <button
             onClick={handleAllow}
-            disabled={submitting}
+            disabled={submitting || policyErrors.length > 0}
             className="flex-1 py-3 px-6 rounded-lg bg-green-500 text-white font-medium hover:bg-green-600 transition-colors disabled:opacity-50"
           >
             {submitting ? "..." : "Allow"}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { OAUTH_PROVIDERS, signInMethods, type SignInMethod } from "@/lib/auth-config";
+import { supabase } from "@/lib/supabase";
+
+interface SignInProps {
+  /** Called once a session exists without leaving the page (password or one-time code) */
+  onSignedIn: () => void;
+}
+
+/**
+ * Sign-in step offering the methods in NEXT_PUBLIC_AUTH_PROVIDERS. OAuth
+ * providers and magic links come back to the current URL, so flows such as
+ * /oauth/consent resume with the same authorization_id.
+ */
+export default function SignIn({ onSignedIn }: SignInProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const oauthMethods = signInMethods.filter((method) => OAUTH_PROVIDERS[method]);
+  const offersEmail = signInMethods.includes("email");
+  const offersPassword = signInMethods.includes("password");
+
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Error signing in:", err);
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOAuth = (method: SignInMethod) =>
+    run(async () => {
+      const { provider, scopes } = OAUTH_PROVIDERS[method]!;
+      const { error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: {
+          redirectTo: window.location.href,
+          scopes,
+        },
+      });
+      if (error) throw error;
+    });
+
+  const handleSendCode = (e?: FormEvent) => {
+    e?.preventDefault();
+    run(async () => {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: window.location.href,
+        },
+      });
+      if (error) throw error;
+      setCodeSent(true);
+    });
+  };
+
+  const handleVerifyCode = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const { error } = await supabase.auth.verifyOtp({ email, token: code, type: "email" });
+      if (error) throw error;
+      onSignedIn();
+    });
+  };
+
+  const handlePassword = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      onSignedIn();
+    });
+  };
+
+  const inputClassName = "w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-800";
+  const primaryButtonClassName =
+    "w-full py-3 px-6 rounded-lg bg-green-500 text-white font-medium hover:bg-green-600 transition-colors disabled:opacity-50";
+  const secondaryButtonClassName =
+    "w-full py-3 px-6 rounded-lg border border-gray-300 text-gray-600 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-5">
+      <div className="bg-white rounded-xl shadow-lg p-10 max-w-md w-full">
+        <h1 className="text-2xl font-semibold text-gray-800 mb-6">Sign In</h1>
+
+        {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+
+        {oauthMethods.length > 0 && (
+          <div className="space-y-3">
+            {oauthMethods.map((method) => (
+              <button
+                key={method}
+                onClick={() => handleOAuth(method)}
+                disabled={submitting}
+                className={secondaryButtonClassName}
+              >
+                Continue with {OAUTH_PROVIDERS[method]!.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {oauthMethods.length > 0 && (offersEmail || offersPassword) && (
+          <p className="text-center text-sm text-gray-500 my-6">or</p>
+        )}
+
+        {codeSent ? (
+          <form onSubmit={handleVerifyCode} className="space-y-3">
+            <p className="text-sm text-gray-600">
+              We sent a sign-in link and code to {email}. Open the link, or enter the code here.
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="Code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              className={inputClassName}
+              required
+            />
+            <button type="submit" disabled={submitting || !code} className={primaryButtonClassName}>
+              {submitting ? "..." : "Verify code"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCodeSent(false)}
+              disabled={submitting}
+              className={secondaryButtonClassName}
+            >
+              Use a different email
+            </button>
+          </form>
+        ) : (
+          (offersEmail || offersPassword) && (
+            // Without a password field, submitting the form (e.g. pressing Enter) sends the code
+            <form onSubmit={offersPassword ? handlePassword : handleSendCode} className="space-y-3">
+              <input
+                type="email"
+                autoComplete="email"
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClassName}
+                required
+              />
+              {offersPassword && (
+                <>
+                  <input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClassName}
+                  />
+                  <button type="submit" disabled={submitting || !email || !password} className={primaryButtonClassName}>
+                    {submitting ? "..." : "Sign in"}
+                  </button>
+                </>
+              )}
+              {offersEmail && (
+                <button
+                  type={offersPassword ? "button" : "submit"}
+                  onClick={offersPassword ? () => handleSendCode() : undefined}
+                  disabled={submitting || !email}
+                  className={offersPassword ? secondaryButtonClassName : primaryButtonClassName}
+                >
+                  {submitting ? "..." : "Email me a sign-in link"}
+                </button>
+              )}
+            </form>
+          )
+        )}
+
+        {signInMethods.length === 0 && (
+          <p className="text-gray-600">
+            No sign-in methods are configured. Set NEXT_PUBLIC_AUTH_PROVIDERS.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
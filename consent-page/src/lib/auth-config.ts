@@ -0,0 +1,26 @@
+import type { Provider } from "@supabase/supabase-js";
+
+/**
+ * Ways a user can sign in on the consent page. OAuth providers must also be
+ * enabled under [auth.external] in Supabase; "email" sends a magic link and
+ * one-time code.
+ */
+export type SignInMethod = "google" | "github" | "azure" | "email" | "password";
+
+export const OAUTH_PROVIDERS: Partial<Record<SignInMethod, { provider: Provider; label: string; scopes?: string }>> = {
+  google: { provider: "google", label: "Google" },
+  github: { provider: "github", label: "GitHub" },
+  // Azure only returns the email address when asked for it
+  azure: { provider: "azure", label: "Microsoft", scopes: "email" },
+};
+
+const ALL_METHODS: SignInMethod[] = ["google", "github", "azure", "email", "password"];
+
+/**
+ * Sign-in methods to offer, from NEXT_PUBLIC_AUTH_PROVIDERS (comma-separated,
+ * defaults to "google")
+ */
+export const signInMethods: SignInMethod[] = (process.env.NEXT_PUBLIC_AUTH_PROVIDERS ?? "google")
+  .split(",")
+  .map((method) => method.trim().toLowerCase())
+  .filter((method): method is SignInMethod => ALL_METHODS.includes(method as SignInMethod));
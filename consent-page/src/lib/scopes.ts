@@ -0,0 +1,82 @@
+/**
+ * Scope catalogue served by the oauth function (GET /oauth/scopes), see
+ * supabase/functions/_shared/scope-catalogue.ts
+ */
+export type LocalizedText = { en: string } & Record<string, string>;
+
+export type ScopeRisk = "low" | "medium" | "high";
+
+export interface ScopeDefinition {
+  scope: string;
+  group: string;
+  title: LocalizedText;
+  description: LocalizedText;
+  risk: ScopeRisk;
+  required?: boolean;
+  tools?: string[];
+}
+
+export interface ScopeCatalogue {
+  groups: Record<string, LocalizedText>;
+  scopes: ScopeDefinition[];
+}
+
+export async function fetchScopeCatalogue(): Promise<ScopeCatalogue | null> {
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/oauth/scopes`);
+    if (!response.ok) {
+      throw new Error(`Scope catalogue request failed with ${response.status}`);
+    }
+    return await response.json();
+  } catch (err) {
+    // The consent screen falls back to raw scope names
+    console.error("Error loading scope catalogue:", err);
+    return null;
+  }
+}
+
+/**
+ * Pick the browser's language, falling back to English
+ */
+export function localize(text: LocalizedText): string {
+  const languages = typeof navigator === "undefined" ? [] : navigator.languages;
+  for (const language of languages) {
+    const match = text[language] ?? text[language.split("-")[0]];
+    if (match) return match;
+  }
+  return text.en;
+}
+
+export interface ScopeGroup {
+  key: string;
+  title: string;
+  scopes: ScopeDefinition[];
+}
+
+/**
+ * Group scopes for display in catalogue order. Scopes the catalogue doesn't
+ * know are shown under "Other" with their raw name and treated as high risk.
+ */
+export function groupScopes(scopes: string[], catalogue: ScopeCatalogue | null): ScopeGroup[] {
+  const groups = new Map<string, ScopeGroup>();
+  for (const [key, title] of Object.entries(catalogue?.groups ?? {})) {
+    groups.set(key, { key, title: localize(title), scopes: [] });
+  }
+
+  for (const scope of scopes) {
+    const definition: ScopeDefinition = catalogue?.scopes.find((d) => d.scope === scope) ?? {
+      scope,
+      group: "other",
+      title: { en: scope },
+      description: { en: "Permission not described by this server." },
+      risk: "high",
+    };
+
+    if (!groups.has(definition.group)) {
+      groups.set(definition.group, { key: definition.group, title: "Other", scopes: [] });
+    }
+    groups.get(definition.group)!.scopes.push(definition);
+  }
+
+  return [...groups.values()].filter((group) => group.scopes.length > 0);
+}
@@ -0,0 +1,9 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Browser client shared by every page, so they all see the same session
+ */
+export const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
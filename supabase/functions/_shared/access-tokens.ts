@@ -0,0 +1,158 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decodeProtectedHeader, jwtVerify, SignJWT } from 'jose'
+import type { AccessTokenClaims } from './jwt.ts'
+import { getSupabaseAuthIssuers, isLocalSupabase } from './supabase.ts'
+
+/**
+ * Lifetime of access tokens issued by the oauth function
+ */
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60
+
+/**
+ * Longest lifetime of a token used to call Supabase on a caller's behalf
+ */
+const SUPABASE_TOKEN_TTL_SECONDS = 60 * 60
+
+export interface AccessTokenParams {
+  userId: string
+  clientId: string
+  scope: string | null
+  /** RFC 8707 resource the token is issued for, and its only audience */
+  resource: string
+  /** Supabase Auth session behind the grant, so revoking the session revokes the token */
+  sessionId?: string
+}
+
+/**
+ * Secret access tokens issued by the oauth function are signed and verified
+ * with, and MCP functions sign their Supabase tokens with. It must be the
+ * project's JWT secret, so Supabase accepts the latter. Read at startup by
+ * the functions that need it, so a missing secret stops them there.
+ */
+export function getTokenSigningSecret(): Uint8Array {
+  const secret = Deno.env.get('MCP_TOKEN_SIGNING_SECRET')
+  if (!secret) {
+    throw new Error("MCP_TOKEN_SIGNING_SECRET must be set to the project's JWT secret")
+  }
+  return new TextEncoder().encode(secret)
+}
+
+/**
+ * Public URL of this project's edge functions
+ */
+function getFunctionsUrl(): string {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  return `${isLocalSupabase(supabaseUrl) ? 'http://localhost:54321' : supabaseUrl}/functions/v1`
+}
+
+/**
+ * Resource tokens are issued for when the client names none: the `mcp`
+ * function, or PUBLIC_URL if set
+ */
+export function getDefaultTokenResource(): string {
+  return Deno.env.get('PUBLIC_URL') || `${getFunctionsUrl()}/mcp`
+}
+
+/**
+ * Resource a token may be issued for: the requested one if it is an edge
+ * function of this project, or the default one when none is requested.
+ * Undefined for resources served elsewhere.
+ */
+export function getTokenResource(requested?: string): string | undefined {
+  if (!requested) {
+    return getDefaultTokenResource()
+  }
+
+  const resource = requested.replace(/\/+$/, '')
+  const publicUrl = Deno.env.get('PUBLIC_URL')?.replace(/\/+$/, '')
+  if (resource === publicUrl || resource.startsWith(`${getFunctionsUrl()}/`)) {
+    return resource
+  }
+  return undefined
+}
+
+/**
+ * Issue an access token for an MCP resource.
+ *
+ * The token's only audience is the resource, and it names the client and the
+ * granted scopes, so the resource can check all three. It carries no `role`,
+ * so the Supabase APIs treat it as anonymous: MCP functions call Supabase
+ * with a token of their own instead (see `signSupabaseToken`).
+ */
+export async function issueAccessToken(supabase: SupabaseClient, params: AccessTokenParams): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.admin.getUserById(params.userId)
+  if (error || !user) {
+    throw new Error(`Failed to load user ${params.userId}: ${error?.message ?? 'not found'}`)
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  return new SignJWT({
+    email: user.email,
+    phone: user.phone,
+    app_metadata: user.app_metadata,
+    user_metadata: user.user_metadata,
+    is_anonymous: user.is_anonymous,
+    session_id: params.sessionId,
+    client_id: params.clientId,
+    scope: params.scope ?? undefined,
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuer(getSupabaseAuthIssuers()[0])
+    .setSubject(params.userId)
+    .setAudience(params.resource)
+    .setIssuedAt(now)
+    .setExpirationTime(now + ACCESS_TOKEN_TTL_SECONDS)
+    .sign(getTokenSigningSecret())
+}
+
+/**
+ * Claims of an access token issued by the oauth function, or undefined for
+ * any other token, e.g. one issued by Supabase Auth
+ */
+export async function verifyIssuedAccessToken(token: string): Promise<AccessTokenClaims | undefined> {
+  try {
+    if (decodeProtectedHeader(token).alg !== 'HS256') {
+      return undefined
+    }
+
+    const { payload } = await jwtVerify<AccessTokenClaims>(token, getTokenSigningSecret(), {
+      issuer: getSupabaseAuthIssuers(),
+      requiredClaims: ['sub', 'exp', 'client_id'],
+    })
+    return isSupabaseAudience(payload) ? undefined : payload
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Whether Supabase accepts a token as is: Supabase Auth issues its own tokens
+ * to the `authenticated` audience
+ */
+export function isSupabaseAudience(claims: AccessTokenClaims): boolean {
+  return [claims.aud].flat().includes('authenticated')
+}
+
+/**
+ * Token Supabase accepts for the caller of an MCP function, so Row Level
+ * Security sees them as the user. Expires with the presented token, and
+ * after an hour at most.
+ */
+export function signSupabaseToken(claims: AccessTokenClaims): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const exp = Math.min(claims.exp ?? Infinity, now + SUPABASE_TOKEN_TTL_SECONDS)
+
+  return new SignJWT({
+    role: 'authenticated',
+    email: claims.email,
+    app_metadata: claims.app_metadata,
+    ...(claims.session_id ? { session_id: claims.session_id } : {}),
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuer(`${Deno.env.get('SUPABASE_URL')}/auth/v1`)
+    .setSubject(claims.sub)
+    .setAudience('authenticated')
+    .setIssuedAt(now)
+    .setExpirationTime(exp)
+    .sign(getTokenSigningSecret())
+}
@@ -0,0 +1,238 @@
+import type { Context, Next } from 'hono'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { McpAuthEnv } from './auth.ts'
+import { readJsonRpcMessages, type JsonRpcMessage } from './json-rpc.ts'
+import { createAdminClient } from './supabase.ts'
+
+/**
+ * How a tool's arguments are logged: 'omit' leaves them out entirely, a list
+ * of field names redacts those fields wherever they appear
+ */
+export type RedactionRule = 'omit' | string[]
+
+export interface AuditConfig {
+  /** Recorded with each entry, e.g. the edge function's name */
+  functionName: string
+  /** Redaction rules per tool name */
+  redact?: Record<string, RedactionRule>
+  /** Days to keep entries, 0 for ever (defaults to AUDIT_RETENTION_DAYS, or 90) */
+  retentionDays?: number
+}
+
+/**
+ * Argument fields redacted for every tool
+ */
+const SENSITIVE_FIELD_PATTERN = /pass(word)?|secret|token|api[_-]?key|authorization|credential/i
+
+const REDACTED = '[REDACTED]'
+
+/**
+ * Minimum time between purges of expired entries, per worker
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Row in public.mcp_audit_log
+ */
+interface AuditEntry {
+  request_id: string
+  function_name: string
+  user_id: string
+  client_id: string | null
+  mcp_session_id: string | null
+  http_method: string
+  method: string | null
+  tool_name: string | null
+  jsonrpc_id: string | null
+  arguments: unknown
+  http_status: number
+  status: 'ok' | 'error' | 'tool_error' | 'accepted'
+  error: string | null
+  latency_ms: number
+}
+
+/**
+ * Replace sensitive fields in tool arguments, following the tool's rule
+ */
+export function redactArguments(args: unknown, rule?: RedactionRule): unknown {
+  if (rule === 'omit') {
+    return null
+  }
+
+  const fields = rule ?? []
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(redact)
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) =>
+          SENSITIVE_FIELD_PATTERN.test(key) || fields.includes(key) ? [key, REDACTED] : [key, redact(field)]
+        )
+      )
+    }
+    return value
+  }
+
+  return redact(args ?? null)
+}
+
+/**
+ * Create the audit middleware for an MCP endpoint.
+ *
+ * Mount it after the auth middleware. Every authenticated request is recorded
+ * in public.mcp_audit_log with one entry per JSON-RPC message: who sent it,
+ * from which client, the method and tool, redacted arguments, the outcome and
+ * how long it took. Responses streamed over SSE are read in the background, so
+ * auditing never delays the client. Each response carries the entry's
+ * X-Request-Id.
+ */
+export function createAuditMiddleware(config: AuditConfig) {
+  const supabase = createAdminClient()
+  const retentionDays = config.retentionDays ?? Number(Deno.env.get('AUDIT_RETENTION_DAYS') || 90)
+  if (!Number.isFinite(retentionDays)) {
+    throw new Error('AUDIT_RETENTION_DAYS must be a number of days')
+  }
+  let lastPurgeAt = 0
+
+  return async (c: Context<McpAuthEnv>, next: Next) => {
+    const requestId = crypto.randomUUID()
+    const startedAt = performance.now()
+    const messages = await readJsonRpcMessages(c)
+
+    await next()
+
+    c.header('X-Request-Id', requestId)
+
+    const user = c.get('user')
+    const authInfo = c.get('authInfo')
+    const base = {
+      request_id: requestId,
+      function_name: config.functionName,
+      user_id: user.id,
+      client_id: authInfo.clientId || null,
+      mcp_session_id: c.req.header('Mcp-Session-Id') ?? c.res.headers.get('Mcp-Session-Id'),
+      http_method: c.req.method,
+      http_status: c.res.status,
+    }
+
+    // Not awaited: the client gets its response while the entries are written
+    const response = c.req.method === 'POST' && c.res.body ? c.res.clone() : undefined
+    recordEntries(supabase, base, messages, response, startedAt, config.redact ?? {})
+      .then(() => {
+        if (retentionDays > 0 && Date.now() - lastPurgeAt > PURGE_INTERVAL_MS) {
+          lastPurgeAt = Date.now()
+          return purgeExpiredEntries(supabase, retentionDays)
+        }
+      })
+      .catch((err) => console.error('Failed to write audit log:', err))
+  }
+}
+
+async function recordEntries(
+  supabase: SupabaseClient,
+  base: Pick<AuditEntry, 'request_id' | 'function_name' | 'user_id' | 'client_id' | 'mcp_session_id' | 'http_method' | 'http_status'>,
+  messages: JsonRpcMessage[],
+  response: Response | undefined,
+  startedAt: number,
+  redact: Record<string, RedactionRule>
+) {
+  const results = response ? await readResults(response) : new Map<string, JsonRpcResult>()
+  const latency_ms = Math.round(performance.now() - startedAt)
+  const failed = base.http_status >= 400
+
+  const entries: AuditEntry[] = messages.map((message) => {
+    const toolName = message.method === 'tools/call' && typeof message.params?.name === 'string'
+      ? message.params.name
+      : null
+    const jsonrpcId = message.id === undefined || message.id === null ? null : String(message.id)
+    const result = (jsonrpcId === null ? undefined : results.get(jsonrpcId)) ?? results.get(REQUEST_ERROR)
+
+    return {
+      ...base,
+      method: message.method ?? null,
+      tool_name: toolName,
+      jsonrpc_id: jsonrpcId,
+      arguments: toolName ? redactArguments(message.params?.arguments, redact[toolName]) : null,
+      status: result?.status ?? (failed ? 'error' : jsonrpcId === null ? 'accepted' : 'ok'),
+      error: result?.error ?? null,
+      latency_ms,
+    }
+  })
+
+  // GET (SSE stream) and DELETE requests carry no messages
+  if (entries.length === 0) {
+    entries.push({
+      ...base,
+      method: null,
+      tool_name: null,
+      jsonrpc_id: null,
+      arguments: null,
+      status: failed ? 'error' : 'ok',
+      error: results.get(REQUEST_ERROR)?.error ?? null,
+      latency_ms,
+    })
+  }
+
+  const { error } = await supabase.from('mcp_audit_log').insert(entries)
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+interface JsonRpcResult {
+  status: AuditEntry['status']
+  error?: string
+}
+
+/**
+ * Key for an error answering the whole request rather than one message, such
+ * as an unknown session or a rate limit
+ */
+const REQUEST_ERROR = ''
+
+/**
+ * Outcome of each JSON-RPC response in a JSON or SSE body, keyed by id
+ */
+async function readResults(response: Response): Promise<Map<string, JsonRpcResult>> {
+  const text = await response.text()
+  const payloads = (response.headers.get('Content-Type') ?? '').includes('text/event-stream')
+    ? text.split('\n').filter((line) => line.startsWith('data:')).map((line) => line.slice(5).trim())
+    : [text]
+
+  const results = new Map<string, JsonRpcResult>()
+  for (const payload of payloads) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(payload)
+    } catch {
+      continue
+    }
+
+    for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (message?.id === undefined || message.id === null) {
+        const error = message?.error?.message ?? message?.error_description
+        if (typeof error === 'string') {
+          results.set(REQUEST_ERROR, { status: 'error', error })
+        }
+        continue
+      }
+      if (message.error) {
+        results.set(String(message.id), { status: 'error', error: message.error.message })
+      } else if (message.result?.isError) {
+        const text = message.result.content?.find((item: { type?: string }) => item.type === 'text')?.text
+        results.set(String(message.id), { status: 'tool_error', error: text })
+      } else {
+        results.set(String(message.id), { status: 'ok' })
+      }
+    }
+  }
+  return results
+}
+
+async function purgeExpiredEntries(supabase: SupabaseClient, retentionDays: number) {
+  const { error } = await supabase.rpc('purge_mcp_audit_log', { p_retention_days: retentionDays })
+  if (error) {
+    throw new Error(error.message)
+  }
+}
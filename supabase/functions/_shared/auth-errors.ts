@@ -0,0 +1,134 @@
+import type { Context } from 'hono'
+
+/**
+ * Why a request to a protected resource was refused
+ */
+export type AuthFailureKind =
+  | 'missing_token'
+  | 'invalid_request'
+  | 'malformed_token'
+  | 'expired_token'
+  | 'invalid_token'
+  | 'wrong_audience'
+  | 'revoked_token'
+  | 'insufficient_scope'
+  | 'unavailable'
+
+export interface AuthFailure {
+  kind: AuthFailureKind
+  /** Detail for the client; defaults to a generic description of the kind */
+  description?: string
+  /** Scopes the client should request instead, for insufficient_scope */
+  scopes?: string[]
+}
+
+interface AuthErrorDefinition {
+  status: 400 | 401 | 403 | 503
+  /**
+   * OAuth error code (RFC 6750 section 3.1), left out when the request carried
+   * no credentials at all
+   */
+  error?: string
+  description: string
+  /**
+   * WWW-Authenticate challenge sent along: 'full' names the error, 'bare' only
+   * points at the metadata, as RFC 6750 section 3.1 asks for requests without
+   * credentials
+   */
+  challenge: 'full' | 'bare' | false
+}
+
+const AUTH_ERRORS: Record<AuthFailureKind, AuthErrorDefinition> = {
+  missing_token: { status: 401, description: 'Missing authorization header', challenge: 'bare' },
+  invalid_request: { status: 400, error: 'invalid_request', description: 'Bearer token required', challenge: 'full' },
+  malformed_token: { status: 401, error: 'invalid_token', description: 'Malformed token', challenge: 'full' },
+  expired_token: { status: 401, error: 'invalid_token', description: 'Token expired', challenge: 'full' },
+  invalid_token: { status: 401, error: 'invalid_token', description: 'Token validation failed', challenge: 'full' },
+  wrong_audience: {
+    status: 401,
+    error: 'invalid_token',
+    description: 'Token audience does not match this resource',
+    challenge: 'full',
+  },
+  revoked_token: { status: 401, error: 'invalid_token', description: 'Token has been revoked', challenge: 'full' },
+  insufficient_scope: { status: 403, error: 'insufficient_scope', description: 'Missing required scope', challenge: 'full' },
+  unavailable: {
+    status: 503,
+    error: 'temporarily_unavailable',
+    description: 'Unable to check token status',
+    challenge: false,
+  },
+}
+
+/**
+ * Quote a WWW-Authenticate parameter value. RFC 6750 limits error_description
+ * and scope to printable ASCII without `"` and `\`, so accents are stripped,
+ * quotes and backslashes are replaced and anything else outside that range
+ * becomes `?`. The result is always a valid quoted-string.
+ */
+export function quoteHeaderValue(value: string): string {
+  const sanitized = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/"/g, "'")
+    .replace(/\\/g, '/')
+    .replace(/[\r\n\t]+/g, ' ')
+    .replace(/[^\x20-\x7e]/g, '?')
+  return `"${sanitized}"`
+}
+
+/**
+ * Build the WWW-Authenticate header for 401/403 responses, pointing clients
+ * at the resource's RFC 9728 metadata
+ */
+export function buildWwwAuthenticateHeader(
+  resourceMetadataUrl: string,
+  error?: string,
+  errorDescription?: string,
+  scope?: string[]
+): string {
+  const params = [`resource_metadata=${quoteHeaderValue(resourceMetadataUrl)}`]
+
+  if (error) {
+    params.push(`error=${quoteHeaderValue(error)}`)
+  }
+
+  if (errorDescription) {
+    params.push(`error_description=${quoteHeaderValue(errorDescription)}`)
+  }
+
+  if (scope?.length) {
+    params.push(`scope=${quoteHeaderValue(scope.join(' '))}`)
+  }
+
+  return `Bearer ${params.join(', ')}`
+}
+
+/**
+ * Status, JSON body and headers for a refused request
+ */
+export function getAuthErrorResponse(failure: AuthFailure, resourceMetadataUrl: string) {
+  const definition = AUTH_ERRORS[failure.kind]
+  const description = failure.description || definition.description
+  const headers: Record<string, string> = {}
+
+  if (definition.challenge === 'full') {
+    headers['WWW-Authenticate'] = buildWwwAuthenticateHeader(resourceMetadataUrl, definition.error, description, failure.scopes)
+  } else if (definition.challenge === 'bare') {
+    headers['WWW-Authenticate'] = buildWwwAuthenticateHeader(resourceMetadataUrl)
+  }
+
+  return {
+    status: definition.status,
+    body: { ...(definition.error ? { error: definition.error } : {}), error_description: description },
+    headers,
+  }
+}
+
+/**
+ * Respond to a refused request
+ */
+export function authErrorResponse(c: Context, resourceMetadataUrl: string, failure: AuthFailure) {
+  const { status, body, headers } = getAuthErrorResponse(failure, resourceMetadataUrl)
+  return c.json(body, status, headers)
+}
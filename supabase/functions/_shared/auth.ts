@@ -0,0 +1,442 @@
+import { Hono, type Context, type Next } from 'hono'
+import type { User } from '@supabase/supabase-js'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { authErrorResponse, type AuthFailure, type AuthFailureKind } from './auth-errors.ts'
+import { createAuthorizationServerMetadata } from './authorization-server.ts'
+import { createMcpCors, getCorsOrigins } from './cors.ts'
+import { createDiscoveryDiagnostics, getChallengeMetadataUrl, isDiagnosticsEnabled } from './diagnostics.ts'
+import { getToolCalls } from './json-rpc.ts'
+import type { AccessTokenClaims, TokenErrorReason } from './jwt.ts'
+import {
+  createRequestValidationMiddleware,
+  getAllowedHosts,
+  isOriginValidationEnabled,
+} from './request-validation.ts'
+import { isTokenRevoked, recordClientActivity } from './revocations.ts'
+import { assertScopesCatalogued, SCOPE_CATALOGUE } from './scope-catalogue.ts'
+import { narrowToGrantedScopes } from './scope-grants.ts'
+import { missingScopes, parseScopes } from './scopes.ts'
+import { createAdminClient, isLocalSupabase } from './supabase.ts'
+import {
+  createTelemetryMiddleware,
+  recordAuthDuration,
+  recordAuthFailure,
+  setActiveSpanAttributes,
+  setSpanError,
+  withSpan,
+} from './telemetry.ts'
+import {
+  createSupabaseTokenValidator,
+  getTokenValidatorFromEnv,
+  type TokenValidator,
+} from './token-validators.ts'
+
+/**
+ * Configuration for the shared MCP auth stack
+ */
+export interface McpAuthConfig {
+  /** Public URL of the protected resource, advertised as `resource` in the metadata */
+  resourceUrl: string
+  /** Authorization server clients should obtain tokens from */
+  authServerUrl: string
+  /** Path of the MCP endpoint relative to the function's base path (defaults to '/') */
+  mcpPath?: string
+  /**
+   * Path of the protected resource metadata relative to the function's base
+   * path, and its public URL. Default to `/.well-known/oauth-protected-resource`
+   * under the function and the resource; set both to the RFC 9728
+   * path-inserted location when several resources share a function.
+   */
+  resourceMetadataPath?: string
+  resourceMetadataUrl?: string
+  /**
+   * Authorization servers advertised in the metadata (defaults to
+   * authServerUrl, or the resource itself when it serves authorization server
+   * metadata)
+   */
+  authorizationServers?: string[]
+  /** Scopes advertised as `scopes_supported` (defaults to those the server and its tools require) */
+  scopesSupported?: string[]
+  /** Scopes a token needs to call this server */
+  requiredScopes?: string[]
+  /** Scopes needed per tool, usually `getToolScopes(server)` */
+  toolScopes?: Map<string, string[]>
+  /**
+   * Serve RFC 8414 authorization server metadata from the function and
+   * advertise it as the authorization server, for clients whose discovery
+   * probes don't resolve against authServerUrl
+   */
+  serveAuthorizationServerMetadata?: boolean
+  /**
+   * Token endpoint advertised in the served metadata, e.g. the oauth
+   * function's `/token`, whose tokens are bound to the resource. Supabase
+   * Auth's own tokens are issued to the `authenticated` audience, which MCP
+   * resources don't accept (defaults to Supabase Auth's).
+   */
+  tokenEndpoint?: string
+  /**
+   * Registration endpoint advertised in the served metadata, e.g. the oauth
+   * function's policy-checked `/register` (defaults to Supabase Auth's)
+   */
+  registrationEndpoint?: string
+  /**
+   * Revocation endpoint advertised in the served metadata, e.g. the oauth
+   * function's `/revoke`, which also revokes the tokens it issued (defaults to
+   * Supabase Auth's)
+   */
+  revocationEndpoint?: string
+  /**
+   * Validates bearer tokens (defaults to the one chosen by TOKEN_VALIDATOR, or
+   * Supabase Auth's). See token-validators.ts for OIDC and introspection.
+   */
+  tokenValidator?: TokenValidator
+  /** JWKS endpoint for local token verification (defaults to the project's Supabase Auth) */
+  jwksUrl?: string
+  /** Accepted token issuers (defaults to the project's Supabase Auth) */
+  issuers?: string[]
+  /**
+   * Accepted token audiences (defaults to resourceUrl plus any listed in
+   * ACCEPTED_AUDIENCES). Tokens issued for anything else are rejected.
+   */
+  audiences?: string[]
+  /**
+   * Serve tagged metadata at every discovery URL and report which ones clients
+   * fetch, see diagnostics.ts (defaults to MCP_DIAGNOSTICS=true)
+   */
+  diagnostics?: boolean
+  /**
+   * Origins browser clients may call the MCP endpoint and metadata from
+   * (defaults to MCP_CORS_ORIGINS, or the local MCP Inspector). An empty list
+   * turns CORS off.
+   */
+  corsOrigins?: string[]
+  /**
+   * Reject requests from origins outside corsOrigins and to hosts outside
+   * allowedHosts, against DNS rebinding (defaults to MCP_VALIDATE_ORIGIN, or
+   * on for the local stack)
+   */
+  validateOrigin?: boolean
+  /** Hostnames the MCP endpoint may be reached under (defaults to MCP_ALLOWED_HOSTS, or the resource URL's) */
+  allowedHosts?: string[]
+  /** Accepted MCP-Protocol-Version values (defaults to those the MCP SDK supports) */
+  protocolVersions?: string[]
+}
+
+/**
+ * The authenticated caller, as derived from the access token
+ */
+export type AuthUser = Pick<User, 'id' | 'email' | 'phone' | 'role' | 'app_metadata' | 'user_metadata' | 'is_anonymous'>
+
+/**
+ * Hono environment for apps using the shared auth middleware
+ */
+export type McpAuthEnv = {
+  Variables: {
+    user: AuthUser
+    claims: AccessTokenClaims
+    /** Passed to the MCP transport so tool handlers see the caller's token */
+    authInfo: AuthInfo
+  }
+}
+
+/**
+ * Resolve the public URLs for an edge function.
+ *
+ * PUBLIC_URL and AUTH_SERVER_URL override the defaults. Otherwise the URLs are
+ * derived from SUPABASE_URL; locally they point at localhost so MCP clients
+ * running on the host can reach them.
+ */
+export function getUrls(functionName: string) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const isLocal = isLocalSupabase(supabaseUrl)
+  const baseUrl = isLocal ? 'http://localhost:54321' : supabaseUrl
+
+  return {
+    isLocal,
+    mcpResourceUrl: Deno.env.get('PUBLIC_URL') || `${baseUrl}/functions/v1/${functionName}`,
+    functionsUrl: `${baseUrl}/functions/v1`,
+    wellKnownAuthorizationServerUrl: Deno.env.get('AUTH_SERVER_URL') || `${baseUrl}/auth/v1`,
+  }
+}
+
+/**
+ * Audiences a token may be issued to and still be accepted by this resource:
+ * by default only the resource itself, which the oauth function's `/token`
+ * binds tokens to. Supabase Auth's own tokens (`aud: authenticated`) are not
+ * accepted unless listed.
+ */
+function getAcceptedAudiences(config: McpAuthConfig): string[] {
+  if (config.audiences) {
+    return config.audiences
+  }
+
+  const extra = Deno.env.get('ACCEPTED_AUDIENCES')?.split(',').map((aud) => aud.trim()).filter(Boolean) ?? []
+  return [config.resourceUrl, ...extra]
+}
+
+/**
+ * Where to fetch the authorization server's RFC 8414 document from: through
+ * the runtime-internal URL when Auth is the local stack
+ */
+export function getUpstreamMetadataUrl(authServerUrl: string): string {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const upstreamAuthServerUrl = isLocalSupabase(supabaseUrl) ? `${supabaseUrl}/auth/v1` : authServerUrl
+  return `${upstreamAuthServerUrl}/.well-known/oauth-authorization-server`
+}
+
+/**
+ * Public URL of a resource's protected resource metadata
+ */
+export function getResourceMetadataUrl(config: McpAuthConfig): string {
+  return config.resourceMetadataUrl ?? `${config.resourceUrl}/.well-known/oauth-protected-resource`
+}
+
+/**
+ * Every scope a resource may ask for, advertised as `scopes_supported`: the
+ * scopes the catalogue always grants, the server's own and its tools', in
+ * catalogue order so the consent screen can explain each one
+ */
+export function getSupportedScopes(config: McpAuthConfig): string[] {
+  const toolScopes = [...(config.toolScopes?.values() ?? [])].flat()
+  const used = new Set([...(config.requiredScopes ?? []), ...toolScopes])
+  return SCOPE_CATALOGUE
+    .filter((definition) => definition.required || used.has(definition.scope))
+    .map((definition) => definition.scope)
+}
+
+/**
+ * Scopes needed for a request: the server's own plus those of any tools it calls
+ */
+async function getRequestScopes(c: Context, config: McpAuthConfig): Promise<string[]> {
+  const required = [...(config.requiredScopes ?? [])]
+  if (!config.toolScopes?.size) {
+    return required
+  }
+
+  for (const call of await getToolCalls(c)) {
+    required.push(...(config.toolScopes.get(call.name) ?? []))
+  }
+
+  return [...new Set(required)]
+}
+
+/**
+ * Create the access token validator for a protected resource: the configured
+ * one, the one chosen by TOKEN_VALIDATOR, or Supabase Auth's
+ */
+export function createTokenValidator(config: McpAuthConfig): TokenValidator {
+  if (config.tokenValidator) {
+    return config.tokenValidator
+  }
+
+  const audiences = getAcceptedAudiences(config)
+  return getTokenValidatorFromEnv(audiences) ??
+    createSupabaseTokenValidator({ audiences, jwksUrl: config.jwksUrl, issuers: config.issuers })
+}
+
+/**
+ * Finish `promise` after the response is sent. The edge runtime keeps the
+ * worker alive until it settles; elsewhere, e.g. in tests, it simply runs on.
+ */
+function waitUntil(promise: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): unknown } }).EdgeRuntime
+  runtime?.waitUntil(promise)
+}
+
+/**
+ * How each kind of rejected token is reported to the client
+ */
+const TOKEN_FAILURES: Record<TokenErrorReason, AuthFailureKind> = {
+  malformed: 'malformed_token',
+  expired: 'expired_token',
+  wrong_audience: 'wrong_audience',
+  invalid: 'invalid_token',
+  unavailable: 'unavailable',
+}
+
+/**
+ * Create the OAuth authentication middleware for a protected resource
+ * Validates Bearer tokens and returns WWW-Authenticate headers on failure
+ */
+export function createAuthMiddleware(config: McpAuthConfig) {
+  const validateToken = createTokenValidator(config)
+  const resourceMetadataUrl = getResourceMetadataUrl(config)
+  // Revocations and client activity live in tables users cannot read directly
+  const supabase = createAdminClient()
+
+  return async (c: Context<McpAuthEnv>, next: Next) => {
+    const refuse = (failure: AuthFailure, clientId?: string) => {
+      recordAuthFailure(failure.kind, clientId ? { 'oauth.client.id': clientId } : {})
+      return authErrorResponse(c, resourceMetadataUrl, failure)
+    }
+
+    // No authorization header - return 401 with discovery info
+    const authHeader = c.req.header('Authorization')
+    if (!authHeader) {
+      return refuse({ kind: 'missing_token' })
+    }
+
+    // Check for Bearer token format
+    const token = authHeader.match(/^Bearer +([^ ]+) *$/i)?.[1]
+    if (!token) {
+      return refuse({ kind: 'invalid_request', description: 'Bearer token required' })
+    }
+
+    // Validate the token
+    const startedAt = performance.now()
+    const { valid, user, claims, external, supabaseToken, reason, error } = await withSpan('mcp.auth.validate_token', {}, async (span) => {
+      const result = await validateToken(token)
+      if (result.valid && result.claims) {
+        span.setAttributes({ 'enduser.id': result.claims.sub, 'oauth.client.id': result.claims.client_id })
+      } else {
+        setSpanError(span, result.reason ?? 'invalid', result.error)
+      }
+      return result
+    })
+    recordAuthDuration(performance.now() - startedAt, { valid })
+
+    if (!valid || !user || !claims) {
+      return refuse({ kind: TOKEN_FAILURES[reason ?? 'invalid'], description: error })
+    }
+
+    // Reject tokens whose grant or session has been revoked since they were
+    // issued, and drop scopes the user declined on the consent screen. Both
+    // are tracked for Supabase Auth grants only.
+    let revoked = false
+    let scopes = parseScopes(claims.scope)
+    try {
+      if (!external) {
+        revoked = await isTokenRevoked(supabase, claims)
+        scopes = await narrowToGrantedScopes(supabase, claims.sub, claims.client_id, scopes)
+      }
+    } catch (err) {
+      console.error(err)
+      return refuse({ kind: 'unavailable' }, claims.client_id)
+    }
+
+    if (revoked) {
+      return refuse({ kind: 'revoked_token' }, claims.client_id)
+    }
+
+    // Check the token carries the scopes this request needs
+    const requiredScopes = await getRequestScopes(c, config)
+    const missing = missingScopes(scopes, requiredScopes)
+
+    if (missing.length > 0) {
+      return refuse(
+        {
+          kind: 'insufficient_scope',
+          description: `Missing required scope: ${missing.join(' ')}`,
+          scopes: [...new Set([...scopes, ...requiredScopes])],
+        },
+        claims.client_id
+      )
+    }
+
+    // Store user and token details in context for downstream handlers
+    setActiveSpanAttributes({ 'enduser.id': user.id, 'oauth.client.id': claims.client_id })
+    c.set('user', user)
+    c.set('claims', claims)
+    c.set('authInfo', {
+      token,
+      clientId: claims.client_id ?? '',
+      scopes,
+      expiresAt: claims.exp,
+      // Read back by tool handlers, see createToolContext
+      extra: { user, claims, supabaseToken },
+    })
+
+    // Last-used bookkeeping must not delay the request
+    if (!external) {
+      waitUntil(recordClientActivity(supabase, claims).catch((err) => console.error(err)))
+    }
+
+    await next()
+  }
+}
+
+/**
+ * Create a Hono sub-app that wires OAuth into an MCP edge function.
+ *
+ * It serves the OAuth Protected Resource Metadata document and requires a valid
+ * Bearer token on `config.mcpPath`. Mount it with `app.route('/', ...)` after any
+ * public routes and before the MCP handler.
+ */
+export function createMcpAuth(config: McpAuthConfig) {
+  assertScopesCatalogued([...(config.requiredScopes ?? []), ...(config.scopesSupported ?? [])], config.toolScopes)
+
+  const mcpPath = config.mcpPath ?? '/'
+  const app = new Hono<McpAuthEnv>()
+  const authorizationServer = config.serveAuthorizationServerMetadata ? config.resourceUrl : config.authServerUrl
+  const authorizationServers = config.authorizationServers ?? [authorizationServer]
+  const metadata = () => ({
+    resource: config.resourceUrl,
+    authorization_servers: authorizationServers,
+    scopes_supported: config.scopesSupported ?? getSupportedScopes(config),
+  })
+
+  const resourceMetadataPath = config.resourceMetadataPath ?? '/.well-known/oauth-protected-resource'
+  const diagnostics = config.diagnostics ?? isDiagnosticsEnabled()
+
+  // Browser clients need CORS on the endpoint and everything they discover
+  // through it. Preflights are answered here, before the auth middleware.
+  const corsOrigins = config.corsOrigins ?? getCorsOrigins()
+  if (corsOrigins.length > 0) {
+    const corsPaths = diagnostics ? [mcpPath, '/.well-known/*', '/diagnostics/*'] : [
+      mcpPath,
+      resourceMetadataPath,
+      ...(config.serveAuthorizationServerMetadata ? ['/.well-known/oauth-authorization-server'] : []),
+    ]
+    const mcpCors = createMcpCors(corsOrigins)
+    for (const path of corsPaths) {
+      app.use(path, mcpCors)
+    }
+  }
+
+  // Challenges point at a metadata URL of their own, so clients following them can be told apart
+  if (diagnostics) {
+    app.route('/', createDiscoveryDiagnostics({ resourceUrl: config.resourceUrl, mcpPath, metadata }))
+  }
+
+  /**
+   * OAuth Protected Resource Metadata endpoint
+   * This advertises the authorization server so MCP clients can discover it
+   */
+  app.get(resourceMetadataPath, (c) => {
+    return c.json(metadata())
+  })
+
+  if (config.serveAuthorizationServerMetadata) {
+    app.route(
+      '/',
+      createAuthorizationServerMetadata({
+        issuer: authorizationServer,
+        authServerUrl: config.authServerUrl,
+        upstreamMetadataUrl: getUpstreamMetadataUrl(config.authServerUrl),
+        scopesSupported: () => config.scopesSupported ?? getSupportedScopes(config),
+        tokenEndpoint: config.tokenEndpoint,
+        registrationEndpoint: config.registrationEndpoint,
+        revocationEndpoint: config.revocationEndpoint,
+      })
+    )
+  }
+
+  // Trace each request to the MCP endpoint, screen its origin, host and
+  // protocol version, then apply the auth middleware
+  app.use(mcpPath, createTelemetryMiddleware())
+  app.use(
+    mcpPath,
+    createRequestValidationMiddleware({
+      validateOrigin: config.validateOrigin ?? isOriginValidationEnabled(),
+      allowedOrigins: [new URL(config.resourceUrl).origin, ...corsOrigins],
+      allowedHosts: config.allowedHosts ?? getAllowedHosts(config.resourceUrl),
+      protocolVersions: config.protocolVersions,
+    })
+  )
+  app.use(
+    mcpPath,
+    createAuthMiddleware(diagnostics ? { ...config, resourceMetadataUrl: getChallengeMetadataUrl(config.resourceUrl) } : config)
+  )
+
+  return app
+}
@@ -0,0 +1,179 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { base64url } from 'jose'
+import { generateOpaqueToken, sha256Hex } from './crypto.ts'
+import { revokeRefreshTokensForCode } from './refresh-tokens.ts'
+
+/**
+ * How long an authorization code can be exchanged for
+ */
+const CODE_TTL_MS = 10 * 60 * 1000
+
+/**
+ * RFC 7636 code_verifier: 43-128 characters from the unreserved set
+ */
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/
+
+export interface AuthorizationCodeRequest {
+  userId: string
+  clientId: string
+  redirectUri: string
+  codeChallenge: string
+  codeChallengeMethod: string
+  scope?: string
+  /** RFC 8707 resource the client asked for */
+  resource?: string
+  /** Supabase Auth session the user signed in with */
+  sessionId?: string
+  /** Supabase refresh token handed over to the refresh token issued for the code */
+  refreshToken: string
+}
+
+export interface AuthorizationCodeGrant {
+  /** Hash of the redeemed code, linking tokens issued for it */
+  codeHash: string
+  userId: string
+  clientId: string
+  scope: string | null
+  resource: string | null
+  sessionId: string | null
+  refreshToken: string
+}
+
+/**
+ * Row returned by redeem_oauth_authorization_code
+ */
+interface RedeemedCode {
+  user_id: string
+  client_id: string
+  redirect_uri: string
+  code_challenge: string
+  scope: string | null
+  resource: string | null
+  session_id: string | null
+  refresh_token: string
+  expires_at: string
+}
+
+/**
+ * Issue an opaque, single-use authorization code bound to the client, redirect
+ * URI and PKCE challenge. Only a hash of the code is stored. Expired codes are
+ * deleted along the way, so unredeemed refresh tokens don't linger.
+ */
+export async function issueAuthorizationCode(
+  supabase: SupabaseClient,
+  request: AuthorizationCodeRequest
+): Promise<{ code?: string; error?: string }> {
+  if (request.codeChallengeMethod !== 'S256') {
+    return { error: 'code_challenge_method must be S256' }
+  }
+  if (!request.codeChallenge) {
+    return { error: 'code_challenge is required' }
+  }
+
+  const { error: purgeError } = await supabase
+    .from('oauth_authorization_codes')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+
+  if (purgeError) {
+    console.error('Failed to purge expired authorization codes:', purgeError)
+  }
+
+  const code = generateOpaqueToken()
+
+  const { error } = await supabase.from('oauth_authorization_codes').insert({
+    code_hash: await sha256Hex(code),
+    user_id: request.userId,
+    client_id: request.clientId,
+    redirect_uri: request.redirectUri,
+    code_challenge: request.codeChallenge,
+    code_challenge_method: request.codeChallengeMethod,
+    scope: request.scope ?? null,
+    resource: request.resource ?? null,
+    session_id: request.sessionId ?? null,
+    refresh_token: request.refreshToken,
+    expires_at: new Date(Date.now() + CODE_TTL_MS).toISOString(),
+  })
+
+  if (error) {
+    console.error('Failed to store authorization code:', error)
+    return { error: 'Failed to issue authorization code' }
+  }
+
+  return { code }
+}
+
+/**
+ * Redeem an authorization code (RFC 6749 section 4.1.3 with RFC 7636 PKCE).
+ *
+ * The code is marked used and its refresh token cleared before any other
+ * check, so a replayed code fails even if the first exchange was rejected.
+ * Replaying a used code also revokes the refresh tokens issued for it (RFC
+ * 6749 section 4.1.2). Codes that were never issued here, e.g. by Supabase
+ * Auth, are reported as `unknown`.
+ */
+export async function redeemAuthorizationCode(
+  supabase: SupabaseClient,
+  params: { code: string; clientId: string; redirectUri: string; codeVerifier: string }
+): Promise<{ valid: boolean; grant?: AuthorizationCodeGrant; unknown?: boolean; error?: string }> {
+  const codeHash = await sha256Hex(params.code)
+  const { data: row, error } = await supabase
+    .rpc('redeem_oauth_authorization_code', { p_code_hash: codeHash })
+    .maybeSingle<RedeemedCode>()
+
+  if (error) {
+    console.error('Failed to redeem authorization code:', error)
+    return { valid: false, error: 'Failed to redeem authorization code' }
+  }
+  if (!row) {
+    const { data: used } = await supabase
+      .from('oauth_authorization_codes')
+      .select('code_hash')
+      .eq('code_hash', codeHash)
+      .maybeSingle()
+
+    if (!used) {
+      return { valid: false, unknown: true, error: 'Authorization code is invalid' }
+    }
+
+    await revokeRefreshTokensForCode(supabase, codeHash)
+    return { valid: false, error: 'Authorization code has already been used' }
+  }
+  if (new Date(row.expires_at).getTime() < Date.now()) {
+    return { valid: false, error: 'Authorization code has expired' }
+  }
+  if (row.client_id !== params.clientId) {
+    return { valid: false, error: 'Authorization code was issued to another client' }
+  }
+  if (row.redirect_uri !== params.redirectUri) {
+    return { valid: false, error: 'redirect_uri does not match the authorization request' }
+  }
+  if (!(await verifyPkce(params.codeVerifier, row.code_challenge))) {
+    return { valid: false, error: 'code_verifier does not match the code challenge' }
+  }
+
+  return {
+    valid: true,
+    grant: {
+      codeHash,
+      userId: row.user_id,
+      clientId: row.client_id,
+      scope: row.scope,
+      resource: row.resource,
+      sessionId: row.session_id,
+      refreshToken: row.refresh_token,
+    },
+  }
+}
+
+/**
+ * Check a PKCE code_verifier against its S256 code_challenge
+ */
+export async function verifyPkce(codeVerifier: string, codeChallenge: string): Promise<boolean> {
+  if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    return false
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return base64url.encode(new Uint8Array(digest)) === codeChallenge
+}
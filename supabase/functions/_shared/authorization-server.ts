@@ -0,0 +1,135 @@
+import { Hono } from 'hono'
+import { TOKEN_ENDPOINT_AUTH_METHODS } from './client-auth.ts'
+
+export interface AuthorizationServerMetadataConfig {
+  /** Identifier advertised in `authorization_servers` and used as `issuer` */
+  issuer: string
+  /** Public URL of the upstream authorization server, e.g. Supabase Auth */
+  authServerUrl: string
+  /** Where to fetch the upstream RFC 8414 document from inside the edge runtime */
+  upstreamMetadataUrl: string
+  /** Scopes advertised as `scopes_supported` */
+  scopesSupported: () => string[]
+  /**
+   * Overrides the upstream `token_endpoint`, and advertises the client
+   * authentication methods the oauth function's one implements
+   */
+  tokenEndpoint?: string
+  /** Overrides the upstream `registration_endpoint` */
+  registrationEndpoint?: string
+  /** Overrides the upstream `revocation_endpoint` */
+  revocationEndpoint?: string
+}
+
+type Metadata = Record<string, unknown>
+
+const CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Serve RFC 8414 Authorization Server Metadata for an MCP function.
+ *
+ * Clients derive the metadata URL from the authorization server identifier in
+ * different ways (RFC 8414 path insertion, or simply appending to the
+ * issuer), and not all of them resolve against the Supabase Auth URL.
+ * Advertising the function itself as the issuer means discovery works both
+ * locally and in production. The upstream document is proxied and filled in
+ * with the endpoints MCP clients need.
+ *
+ * Authorization responses still come from Supabase Auth, and tokens name it
+ * as their issuer, so nothing here invites clients to check them against the
+ * advertised one: OpenID Connect discovery is not served, and RFC 9207 `iss`
+ * response parameter support is not advertised.
+ */
+export function createAuthorizationServerMetadata(config: AuthorizationServerMetadataConfig) {
+  const app = new Hono()
+  let cached: { metadata: Metadata; expiresAt: number } | undefined
+
+  async function getMetadata(): Promise<Metadata> {
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata
+    }
+
+    let upstream: Metadata = {}
+    try {
+      const response = await fetch(config.upstreamMetadataUrl)
+      if (response.ok) {
+        upstream = rewriteUrls(await response.json(), config)
+      } else {
+        console.warn(`Authorization server metadata fetch failed with ${response.status}`)
+      }
+    } catch (err) {
+      console.warn('Authorization server metadata fetch failed:', err)
+    }
+
+    const metadata = normalize(upstream, config)
+    // Only cache a successful upstream fetch so outages are retried
+    if (Object.keys(upstream).length > 0) {
+      cached = { metadata, expiresAt: Date.now() + CACHE_TTL_MS }
+    }
+    return metadata
+  }
+
+  app.get('/.well-known/oauth-authorization-server', async (c) => {
+    return c.json(await getMetadata())
+  })
+
+  return app
+}
+
+/**
+ * Fill in anything the upstream document leaves out with the Supabase Auth
+ * OAuth 2.1 server defaults
+ */
+function normalize(upstream: Metadata, config: AuthorizationServerMetadataConfig): Metadata {
+  const base = config.authServerUrl
+
+  return {
+    authorization_endpoint: `${base}/oauth/authorize`,
+    token_endpoint: `${base}/oauth/token`,
+    registration_endpoint: `${base}/oauth/clients/register`,
+    jwks_uri: `${base}/.well-known/jwks.json`,
+    revocation_endpoint: `${base}/oauth/revoke`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+    ...withoutIssuerChecks(upstream),
+    issuer: config.issuer,
+    ...(config.tokenEndpoint
+      ? { token_endpoint: config.tokenEndpoint, token_endpoint_auth_methods_supported: [...TOKEN_ENDPOINT_AUTH_METHODS] }
+      : {}),
+    ...(config.registrationEndpoint ? { registration_endpoint: config.registrationEndpoint } : {}),
+    ...(config.revocationEndpoint ? { revocation_endpoint: config.revocationEndpoint } : {}),
+    scopes_supported: [...new Set([...asStrings(upstream.scopes_supported), ...config.scopesSupported()])],
+  }
+}
+
+/**
+ * Drop upstream fields asking clients to match Supabase Auth's issuer, which
+ * differs from the one advertised
+ */
+function withoutIssuerChecks(upstream: Metadata): Metadata {
+  const { authorization_response_iss_parameter_supported: _issParameter, ...metadata } = upstream
+  return metadata
+}
+
+/**
+ * Replace the runtime-internal upstream origin (e.g. kong:8000 locally) with
+ * the public authorization server URL
+ */
+function rewriteUrls(upstream: Metadata, config: AuthorizationServerMetadataConfig): Metadata {
+  const internalBase = config.upstreamMetadataUrl.replace(/\/\.well-known\/.*$/, '')
+  const rewritten: Metadata = {}
+
+  for (const [key, value] of Object.entries(upstream)) {
+    rewritten[key] = typeof value === 'string' && value.startsWith(internalBase)
+      ? config.authServerUrl + value.slice(internalBase.length)
+      : value
+  }
+
+  return rewritten
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
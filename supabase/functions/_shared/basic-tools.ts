@@ -0,0 +1,39 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { z } from 'zod'
+import { registerTool } from './tools.ts'
+
+/**
+ * Register `add`, which adds two numbers together
+ */
+export function registerAddTool(server: McpServer) {
+  registerTool(
+    server,
+    'add',
+    {
+      title: 'Addition Tool',
+      description: 'Add two numbers together',
+      inputSchema: { a: z.number(), b: z.number() },
+      requiredScopes: ['mcp:tools'],
+    },
+    ({ a, b }) => ({
+      content: [{ type: 'text', text: String(a + b) }],
+    })
+  )
+}
+
+/**
+ * Register `whoami`, which runs as the caller and reports who they are
+ */
+export function registerWhoamiTool(server: McpServer) {
+  registerTool(
+    server,
+    'whoami',
+    {
+      title: 'Who Am I',
+      description: 'Return the authenticated user and the scopes granted to this client',
+    },
+    ({ user, scopes }) => ({
+      content: [{ type: 'text', text: JSON.stringify({ id: user.id, email: user.email, scopes }) }],
+    })
+  )
+}
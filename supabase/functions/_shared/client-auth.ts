@@ -0,0 +1,66 @@
+import type { ClientCredentials } from './supabase-oauth.ts'
+
+/**
+ * Client authentication methods the oauth function's token endpoint accepts,
+ * advertised as `token_endpoint_auth_methods_supported`
+ */
+export const TOKEN_ENDPOINT_AUTH_METHODS = ['none', 'client_secret_basic', 'client_secret_post'] as const
+
+export type TokenEndpointAuthMethod = typeof TOKEN_ENDPOINT_AUTH_METHODS[number]
+
+export interface ClientCredentialsResult {
+  credentials?: ClientCredentials
+  /** How the client authenticated, to compare with its registration */
+  method?: TokenEndpointAuthMethod
+  error?: 'invalid_request' | 'invalid_client'
+  errorDescription?: string
+}
+
+/**
+ * Read the credentials a client authenticated to the token endpoint with
+ * (RFC 6749 section 2.3.1): HTTP Basic (`client_secret_basic`), `client_id`
+ * and `client_secret` in the body (`client_secret_post`), or `client_id`
+ * alone for public clients (`none`). Using more than one method is an error.
+ */
+export function readClientCredentials(
+  authorization: string | undefined,
+  body: Record<string, unknown>
+): ClientCredentialsResult {
+  const bodyClientId = typeof body.client_id === 'string' ? body.client_id : ''
+  const bodySecret = typeof body.client_secret === 'string' ? body.client_secret : ''
+
+  const basic = authorization?.match(/^Basic +([A-Za-z0-9+/=]+) *$/i)?.[1]
+  if (!basic) {
+    if (!bodyClientId) {
+      return { error: 'invalid_request', errorDescription: 'client_id is required' }
+    }
+    return bodySecret
+      ? { credentials: { clientId: bodyClientId, clientSecret: bodySecret }, method: 'client_secret_post' }
+      : { credentials: { clientId: bodyClientId }, method: 'none' }
+  }
+
+  if (bodySecret) {
+    return { error: 'invalid_request', errorDescription: 'Use only one client authentication method' }
+  }
+
+  let clientId: string
+  let clientSecret: string
+  try {
+    const decoded = atob(basic)
+    const separator = decoded.indexOf(':')
+    if (separator < 0) {
+      return { error: 'invalid_client', errorDescription: 'Malformed Basic credentials' }
+    }
+    // Both parts are form-urlencoded before being joined
+    const formDecode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '))
+    clientId = formDecode(decoded.slice(0, separator))
+    clientSecret = formDecode(decoded.slice(separator + 1))
+  } catch {
+    return { error: 'invalid_client', errorDescription: 'Malformed Basic credentials' }
+  }
+
+  if (!clientId || !clientSecret || (bodyClientId && bodyClientId !== clientId)) {
+    return { error: 'invalid_client', errorDescription: 'Invalid Basic credentials' }
+  }
+  return { credentials: { clientId, clientSecret }, method: 'client_secret_basic' }
+}
@@ -0,0 +1,86 @@
+/**
+ * Rules dynamically registered clients must follow
+ */
+export interface RegistrationPolicy {
+  /** Hosts (and their subdomains) no client may redirect to */
+  deniedHosts: string[]
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Read the registration policy from the environment
+ */
+export function getRegistrationPolicy(): RegistrationPolicy {
+  return {
+    deniedHosts: Deno.env.get('REGISTRATION_DENIED_HOSTS')?.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean) ?? [],
+  }
+}
+
+/**
+ * Check a client's redirect URIs against the policy. Only https URIs and
+ * http URIs on a loopback host are allowed, and never on a denied host.
+ * Returns one message per violation.
+ */
+export function checkRedirectUris(redirectUris: unknown, policy: RegistrationPolicy = getRegistrationPolicy()): string[] {
+  if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+    return ['redirect_uris must list at least one URI']
+  }
+
+  const errors: string[] = []
+  for (const uri of redirectUris) {
+    let url: URL
+    try {
+      url = new URL(String(uri))
+    } catch {
+      errors.push(`${uri} is not a valid URI`)
+      continue
+    }
+
+    const host = url.hostname.toLowerCase()
+    if (url.hash) {
+      errors.push(`${uri} must not contain a fragment`)
+    } else if (url.protocol === 'http:' && !LOOPBACK_HOSTS.includes(host)) {
+      errors.push(`${uri} must use https unless it points at localhost`)
+    } else if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      errors.push(`${uri} must use https or point at localhost`)
+    } else if (policy.deniedHosts.some((denied) => host === denied || host.endsWith(`.${denied}`))) {
+      errors.push(`${uri} points at a denied host`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validate RFC 7591 client metadata before it is registered
+ */
+export function validateClientMetadata(
+  metadata: Record<string, unknown>,
+  policy: RegistrationPolicy = getRegistrationPolicy()
+): { valid: boolean; error?: string; errorDescription?: string } {
+  const errors = checkRedirectUris(metadata.redirect_uris, policy)
+  if (errors.length > 0) {
+    return { valid: false, error: 'invalid_redirect_uri', errorDescription: errors.join('; ') }
+  }
+
+  if (metadata.client_name !== undefined && typeof metadata.client_name !== 'string') {
+    return { valid: false, error: 'invalid_client_metadata', errorDescription: 'client_name must be a string' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Hosts a client redirects to, shown on the consent screen
+ */
+export function getRedirectHosts(redirectUris: string[]): string[] {
+  const hosts = redirectUris.flatMap((uri) => {
+    try {
+      return [new URL(uri).host]
+    } catch {
+      return []
+    }
+  })
+  return [...new Set(hosts)]
+}
@@ -0,0 +1,53 @@
+import { cors } from 'hono/cors'
+
+/**
+ * Origins of the MCP Inspector's web UI when run locally
+ */
+const DEFAULT_ORIGINS = ['http://localhost:6274', 'http://127.0.0.1:6274']
+
+/**
+ * Request headers browser clients send to the MCP endpoint
+ */
+const ALLOWED_HEADERS = [
+  'Authorization',
+  'Content-Type',
+  'Accept',
+  'Mcp-Session-Id',
+  'MCP-Protocol-Version',
+  'Last-Event-ID',
+  'traceparent',
+  'tracestate',
+]
+
+/**
+ * Response headers browser clients need to read: the auth challenge, the
+ * session and protocol version, and what audit logging and rate limits add
+ */
+const EXPOSED_HEADERS = ['WWW-Authenticate', 'Mcp-Session-Id', 'MCP-Protocol-Version', 'Retry-After', 'X-Request-Id']
+
+/**
+ * Origins allowed to call MCP functions from the browser: MCP_CORS_ORIGINS as
+ * a comma-separated list, or `*` for any origin. Defaults to the local MCP
+ * Inspector.
+ */
+export function getCorsOrigins(): string[] {
+  const origins = Deno.env.get('MCP_CORS_ORIGINS')?.split(',').map((origin) => origin.trim()).filter(Boolean) ?? []
+  return origins.length > 0 ? origins : DEFAULT_ORIGINS
+}
+
+/**
+ * Create the CORS middleware for an MCP endpoint and its metadata.
+ *
+ * Mount it before the auth middleware: it answers preflight requests itself,
+ * since browsers send them without the Authorization header. Requests from
+ * other origins get no CORS headers, so browsers refuse to read the responses.
+ */
+export function createMcpCors(origins: string[]) {
+  return cors({
+    origin: origins.includes('*') ? '*' : (origin) => (origins.includes(origin) ? origin : null),
+    allowMethods: ['GET', 'POST', 'DELETE'],
+    allowHeaders: ALLOWED_HEADERS,
+    exposeHeaders: EXPOSED_HEADERS,
+    maxAge: 86400,
+  })
+}
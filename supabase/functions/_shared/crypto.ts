@@ -0,0 +1,16 @@
+import { base64url } from 'jose'
+
+/**
+ * Random, URL-safe opaque token (256 bits)
+ */
+export function generateOpaqueToken(): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * Hex SHA-256 digest; secrets such as codes and refresh tokens are stored only by their hash
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -0,0 +1,483 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { AnySchema, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { z } from 'zod'
+import { missingScopes } from './scopes.ts'
+import { createToolContext, registerTool, type ToolContext } from './tools.ts'
+
+/**
+ * A column, by Postgres type name (e.g. 'text', 'int8', 'timestamptz', 'uuid[]')
+ * or with extra detail
+ */
+export type ColumnConfig =
+  | string
+  | {
+    type: string
+    /** Column accepts null */
+    nullable?: boolean
+    /** Column has a default, so it can be omitted on insert */
+    hasDefault?: boolean
+    /** Column is set by the database (e.g. created_at, owner id) and never written by tools */
+    readOnly?: boolean
+    description?: string
+  }
+
+export type TableOperation = 'list' | 'get' | 'insert' | 'update'
+
+export interface TableConfig {
+  name: string
+  /** Defaults to 'public' */
+  schema?: string
+  description?: string
+  /** Column used by get_/update_ tools and resource URIs */
+  primaryKey: string
+  columns: Record<string, ColumnConfig>
+  /** Defaults to all operations */
+  operations?: TableOperation[]
+}
+
+export interface RpcConfig {
+  name: string
+  /** Defaults to 'public' */
+  schema?: string
+  description?: string
+  args: Record<string, ColumnConfig>
+  /** Function only reads data; it needs readScopes instead of writeScopes */
+  readOnly?: boolean
+}
+
+export interface DatabaseToolsConfig {
+  tables: TableConfig[]
+  rpc?: RpcConfig[]
+  /** Scopes needed for list_/get_ tools, read-only functions and resources */
+  readScopes?: string[]
+  /** Scopes needed for insert_/update_ tools and other functions */
+  writeScopes?: string[]
+}
+
+/**
+ * The notes table and its search function, as exposed by the `mcp` function
+ * and the gateway's notes toolset. See supabase/migrations for the schema.
+ */
+export const NOTES_DATABASE_TOOLS: DatabaseToolsConfig = {
+  tables: [
+    {
+      name: 'notes',
+      description: "the user's notes",
+      primaryKey: 'id',
+      columns: {
+        id: { type: 'uuid', hasDefault: true },
+        user_id: { type: 'uuid', readOnly: true },
+        title: 'text',
+        body: { type: 'text', nullable: true },
+        tags: { type: 'text[]', hasDefault: true },
+        created_at: { type: 'timestamptz', readOnly: true },
+        updated_at: { type: 'timestamptz', readOnly: true },
+      },
+    },
+  ],
+  rpc: [
+    {
+      name: 'search_notes',
+      description: "Search the user's notes by title or body",
+      args: { query: 'text' },
+      readOnly: true,
+    },
+  ],
+  readScopes: ['notes:read'],
+  writeScopes: ['notes:write'],
+}
+
+interface NormalizedColumn {
+  type: string
+  nullable: boolean
+  hasDefault: boolean
+  readOnly: boolean
+  description?: string
+}
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 100
+
+/**
+ * Expose an allow-list of Postgres tables and functions as MCP tools and resources.
+ *
+ * For each table this registers `list_<table>`, `get_<table>`, `insert_<table>`
+ * and `update_<table>` tools plus a `db://<schema>/<table>/{key}` resource
+ * template; each function becomes an `rpc_<name>` tool. Input schemas are
+ * derived from the configured column types. Every query runs through the
+ * caller's Supabase client, so Row Level Security decides what they can see
+ * and change.
+ */
+export function registerDatabaseTools(server: McpServer, config: DatabaseToolsConfig) {
+  const readScopes = config.readScopes ?? []
+  const writeScopes = config.writeScopes ?? []
+
+  for (const table of config.tables) {
+    const operations = new Set(table.operations ?? ['list', 'get', 'insert', 'update'])
+    const columns = normalizeColumns(table.columns)
+    const label = table.description ?? `the ${table.name} table`
+
+    if (!columns[table.primaryKey]) {
+      throw new Error(`Primary key "${table.primaryKey}" is not a configured column of ${table.name}`)
+    }
+
+    if (operations.has('list')) {
+      registerListTool(server, table, columns, label, readScopes)
+    }
+    if (operations.has('get')) {
+      registerGetTool(server, table, columns, label, readScopes)
+      registerTableResource(server, table, label, readScopes)
+    }
+    if (operations.has('insert')) {
+      registerInsertTool(server, table, columns, label, writeScopes)
+    }
+    if (operations.has('update')) {
+      registerUpdateTool(server, table, columns, label, writeScopes)
+    }
+  }
+
+  for (const fn of config.rpc ?? []) {
+    registerRpcTool(server, fn, fn.readOnly ? readScopes : writeScopes)
+  }
+}
+
+function registerListTool(
+  server: McpServer,
+  table: TableConfig,
+  columns: Record<string, NormalizedColumn>,
+  label: string,
+  requiredScopes: string[]
+) {
+  const columnNames = Object.keys(columns) as [string, ...string[]]
+  const filterShape = mapShape(columns, (column) => columnSchema(column).optional())
+
+  registerTool(
+    server,
+    `list_${table.name}`,
+    {
+      title: `List ${table.name}`,
+      description: `List rows from ${label}, optionally filtered by exact column values`,
+      inputSchema: {
+        filters: z.object(filterShape).optional().describe('Only return rows whose columns equal these values'),
+        order_by: z.enum(columnNames).optional(),
+        ascending: z.boolean().default(true),
+        limit: z.int().min(1).max(MAX_LIST_LIMIT).default(DEFAULT_LIST_LIMIT),
+        offset: z.int().min(0).default(0),
+      },
+      annotations: { readOnlyHint: true },
+      requiredScopes,
+    },
+    async ({ filters, order_by, ascending, limit, offset }, { supabase }) => {
+      let query = supabase
+        .schema(table.schema ?? 'public')
+        .from(table.name)
+        .select('*')
+        .match((filters ?? {}) as Record<string, unknown>)
+        .range(offset, offset + limit - 1)
+
+      if (order_by) {
+        query = query.order(order_by, { ascending })
+      }
+
+      const { data, error } = await query
+      return error ? errorResult(error.message) : jsonResult(data)
+    }
+  )
+}
+
+function registerGetTool(
+  server: McpServer,
+  table: TableConfig,
+  columns: Record<string, NormalizedColumn>,
+  label: string,
+  requiredScopes: string[]
+) {
+  registerTool(
+    server,
+    `get_${table.name}`,
+    {
+      title: `Get ${table.name}`,
+      description: `Fetch a single row from ${label} by ${table.primaryKey}`,
+      inputSchema: { [table.primaryKey]: columnSchema({ ...columns[table.primaryKey], nullable: false }) },
+      annotations: { readOnlyHint: true },
+      requiredScopes,
+    },
+    async (args, { supabase }) => {
+      const { data, error } = await supabase
+        .schema(table.schema ?? 'public')
+        .from(table.name)
+        .select('*')
+        .eq(table.primaryKey, args[table.primaryKey])
+        .maybeSingle()
+
+      if (error) {
+        return errorResult(error.message)
+      }
+      return data ? jsonResult(data) : errorResult(`No ${table.name} row with ${table.primaryKey} ${args[table.primaryKey]}`)
+    }
+  )
+}
+
+function registerInsertTool(
+  server: McpServer,
+  table: TableConfig,
+  columns: Record<string, NormalizedColumn>,
+  label: string,
+  requiredScopes: string[]
+) {
+  const writable = Object.fromEntries(Object.entries(columns).filter(([, column]) => !column.readOnly))
+  const inputSchema = mapShape(writable, (column) => {
+    const schema = columnSchema(column)
+    return column.nullable || column.hasDefault ? schema.optional() : schema
+  })
+
+  registerTool(
+    server,
+    `insert_${table.name}`,
+    {
+      title: `Insert ${table.name}`,
+      description: `Insert a row into ${label} and return it`,
+      inputSchema,
+      requiredScopes,
+    },
+    async (row, { supabase }) => {
+      const { data, error } = await supabase
+        .schema(table.schema ?? 'public')
+        .from(table.name)
+        .insert(row)
+        .select()
+        .single()
+
+      return error ? errorResult(error.message) : jsonResult(data)
+    }
+  )
+}
+
+function registerUpdateTool(
+  server: McpServer,
+  table: TableConfig,
+  columns: Record<string, NormalizedColumn>,
+  label: string,
+  requiredScopes: string[]
+) {
+  const writable = Object.fromEntries(
+    Object.entries(columns).filter(([name, column]) => !column.readOnly && name !== table.primaryKey)
+  )
+
+  registerTool(
+    server,
+    `update_${table.name}`,
+    {
+      title: `Update ${table.name}`,
+      description: `Update columns of a row in ${label} by ${table.primaryKey} and return it`,
+      inputSchema: {
+        [table.primaryKey]: columnSchema({ ...columns[table.primaryKey], nullable: false }),
+        values: z.object(mapShape(writable, (column) => columnSchema(column).optional()))
+          .describe('Columns to change'),
+      },
+      annotations: { idempotentHint: true },
+      requiredScopes,
+    },
+    async (args, { supabase }) => {
+      const { data, error } = await supabase
+        .schema(table.schema ?? 'public')
+        .from(table.name)
+        .update(args.values as Record<string, unknown>)
+        .eq(table.primaryKey, args[table.primaryKey])
+        .select()
+        .maybeSingle()
+
+      if (error) {
+        return errorResult(error.message)
+      }
+      // RLS hides rows the caller can't update, so a miss may also mean "not yours"
+      return data ? jsonResult(data) : errorResult(`No ${table.name} row with ${table.primaryKey} ${args[table.primaryKey]}`)
+    }
+  )
+}
+
+function registerRpcTool(server: McpServer, fn: RpcConfig, requiredScopes: string[]) {
+  const args = normalizeColumns(fn.args)
+
+  registerTool(
+    server,
+    `rpc_${fn.name}`,
+    {
+      title: `Call ${fn.name}`,
+      description: fn.description ?? `Call the ${fn.name} database function`,
+      inputSchema: mapShape(args, (column) => {
+        const schema = columnSchema(column)
+        return column.hasDefault ? schema.optional() : schema
+      }),
+      annotations: { readOnlyHint: fn.readOnly ?? false },
+      requiredScopes,
+    },
+    async (input, { supabase }) => {
+      const { data, error } = await supabase.schema(fn.schema ?? 'public').rpc(fn.name, input)
+      return error ? errorResult(error.message) : jsonResult(data)
+    }
+  )
+}
+
+/**
+ * Rows of a table as `db://<schema>/<table>/{key}` resources
+ */
+function registerTableResource(server: McpServer, table: TableConfig, label: string, requiredScopes: string[]) {
+  const schema = table.schema ?? 'public'
+  const baseUri = `db://${schema}/${table.name}`
+
+  const authorize = (extra: Parameters<typeof createToolContext>[0]): ToolContext => {
+    const context = createToolContext(extra)
+    if (!context) {
+      throw new Error('Authentication required')
+    }
+    const missing = missingScopes(context.scopes, requiredScopes)
+    if (missing.length > 0) {
+      throw new Error(`Missing required scope: ${missing.join(' ')}`)
+    }
+    return context
+  }
+
+  server.registerResource(
+    table.name,
+    new ResourceTemplate(`${baseUri}/{${table.primaryKey}}`, {
+      list: async (extra) => {
+        const { supabase } = authorize(extra)
+        const { data, error } = await supabase
+          .schema(schema)
+          .from(table.name)
+          .select(table.primaryKey)
+          .limit(MAX_LIST_LIMIT)
+
+        if (error) {
+          throw new Error(error.message)
+        }
+
+        return {
+          resources: (data as unknown as Record<string, unknown>[]).map((row) => ({
+            uri: `${baseUri}/${encodeURIComponent(String(row[table.primaryKey]))}`,
+            name: `${table.name} ${row[table.primaryKey]}`,
+            mimeType: 'application/json',
+          })),
+        }
+      },
+    }),
+    {
+      title: table.name,
+      description: `Rows of ${label}`,
+      mimeType: 'application/json',
+    },
+    async (uri, variables, extra) => {
+      const { supabase } = authorize(extra)
+      const key = decodeURIComponent(String(variables[table.primaryKey]))
+      const { data, error } = await supabase
+        .schema(schema)
+        .from(table.name)
+        .select('*')
+        .eq(table.primaryKey, key)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(error.message)
+      }
+      if (!data) {
+        throw new Error(`Resource ${uri.href} not found`)
+      }
+
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+      }
+    }
+  )
+}
+
+function normalizeColumns(columns: Record<string, ColumnConfig>): Record<string, NormalizedColumn> {
+  return Object.fromEntries(
+    Object.entries(columns).map(([name, column]) => {
+      const config = typeof column === 'string' ? { type: column } : column
+      return [name, {
+        type: config.type.toLowerCase().trim(),
+        nullable: config.nullable ?? false,
+        hasDefault: config.hasDefault ?? false,
+        readOnly: config.readOnly ?? false,
+        description: config.description,
+      }]
+    })
+  )
+}
+
+function mapShape(
+  columns: Record<string, NormalizedColumn>,
+  toSchema: (column: NormalizedColumn) => z.ZodType
+): ZodRawShapeCompat {
+  return Object.fromEntries(
+    Object.entries(columns).map(([name, column]) => [name, toSchema(column) as AnySchema])
+  )
+}
+
+/**
+ * Zod schema for a value of a Postgres column, following how PostgREST
+ * serializes each type to JSON
+ */
+function columnSchema(column: NormalizedColumn): z.ZodType {
+  let schema = postgresTypeSchema(column.type)
+  if (column.description) {
+    schema = schema.describe(column.description)
+  }
+  return column.nullable ? schema.nullable() : schema
+}
+
+function postgresTypeSchema(type: string): z.ZodType {
+  if (type.endsWith('[]')) {
+    return z.array(postgresTypeSchema(type.slice(0, -2)))
+  }
+
+  switch (type) {
+    case 'uuid':
+      return z.uuid()
+    case 'int2':
+    case 'int4':
+    case 'int8':
+    case 'smallint':
+    case 'integer':
+    case 'bigint':
+      return z.int()
+    case 'float4':
+    case 'float8':
+    case 'real':
+    case 'double precision':
+    case 'numeric':
+    case 'decimal':
+      return z.number()
+    case 'bool':
+    case 'boolean':
+      return z.boolean()
+    case 'json':
+    case 'jsonb':
+      return z.json()
+    case 'date':
+      return z.iso.date()
+    case 'timestamp':
+    case 'timestamptz':
+    case 'timestamp with time zone':
+    case 'timestamp without time zone':
+      return z.string().describe('ISO 8601 timestamp')
+    default:
+      // text, varchar, citext, enums and anything else PostgREST returns as a string
+      return z.string()
+  }
+}
+
+function jsonResult(data: unknown): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+  }
+}
+
+function errorResult(text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true,
+  }
+}
@@ -0,0 +1,200 @@
+import { Hono, type Context, type Next } from 'hono'
+import { decodeJwt } from 'jose'
+import type { McpAuthEnv } from './auth.ts'
+
+/**
+ * Where a client found the protected resource metadata: the URL in the
+ * WWW-Authenticate challenge, the well-known URL at the function's root, or
+ * the RFC 9728 path-inserted URL for the MCP endpoint
+ */
+export type DiscoveryStrategy = 'www-authenticate' | 'root' | 'path-inserted'
+
+export type ProbeKind =
+  | 'resource_metadata'
+  | 'authorization_server_metadata'
+  | 'registration'
+  | 'authorization'
+  | 'token'
+  | 'mcp'
+  | 'other'
+
+/**
+ * One request a client made while discovering or calling the server
+ */
+export interface DiscoveryProbe {
+  at: string
+  method: string
+  path: string
+  status: number
+  kind: ProbeKind
+  strategy?: DiscoveryStrategy
+  userAgent: string
+  clientId?: string
+  /** Whether the request carried a bearer token */
+  bearer: boolean
+}
+
+export interface DiscoveryDiagnosticsConfig {
+  /** Public URL of the function, the base of the tagged metadata URLs */
+  resourceUrl: string
+  /** Path of the MCP endpoint relative to the function's base path */
+  mcpPath: string
+  /** The resource's protected resource metadata document */
+  metadata: () => Record<string, unknown>
+  /** Probes kept for the report, oldest dropped first (defaults to 1000) */
+  maxProbes?: number
+}
+
+const RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource'
+
+/**
+ * Path of the metadata advertised only in WWW-Authenticate challenges
+ */
+const CHALLENGE_METADATA_PATH = '/diagnostics/oauth-protected-resource'
+
+/**
+ * Whether MCP_DIAGNOSTICS turns on discovery diagnostics
+ */
+export function isDiagnosticsEnabled(): boolean {
+  return Deno.env.get('MCP_DIAGNOSTICS') === 'true'
+}
+
+/**
+ * Public URL of the metadata advertised in WWW-Authenticate challenges while
+ * diagnostics are on
+ */
+export function getChallengeMetadataUrl(resourceUrl: string): string {
+  return `${resourceUrl}${CHALLENGE_METADATA_PATH}`
+}
+
+/**
+ * Observe how MCP clients discover and authenticate with a server.
+ *
+ * The protected resource metadata is served at each URL a client may try: the
+ * one in the WWW-Authenticate challenge, the function's root well-known URL
+ * and the path-inserted one. Each copy is tagged with `discovery_strategy`.
+ * Every discovery, registration, authorization and MCP request that reaches
+ * the function is logged with the client's User-Agent and client_id, and
+ * `GET /diagnostics` reports what each client did. Probes are kept in memory,
+ * per worker.
+ *
+ * Mount it before the regular metadata route so its copies take precedence.
+ * Diagnostics expose client details to anyone, so only enable them while
+ * testing clients.
+ */
+export function createDiscoveryDiagnostics(config: DiscoveryDiagnosticsConfig) {
+  const app = new Hono<McpAuthEnv>()
+  const maxProbes = config.maxProbes ?? 1000
+  const startedAt = new Date().toISOString()
+  const probes: DiscoveryProbe[] = []
+  const tags = new WeakMap<Request, Pick<DiscoveryProbe, 'kind' | 'strategy'>>()
+
+  const tag = (kind: ProbeKind, strategy?: DiscoveryStrategy) => async (c: Context, next: Next) => {
+    tags.set(c.req.raw, { kind, strategy })
+    await next()
+  }
+
+  const serveMetadata = (strategy: DiscoveryStrategy) => (c: Context) => {
+    return c.json({ ...config.metadata(), discovery_strategy: strategy })
+  }
+
+  // Registered first so reading the report isn't logged itself
+  app.get('/diagnostics', (c) => {
+    return c.json({ since: startedAt, clients: summarize(probes) })
+  })
+
+  // Log every request once it has been answered
+  app.use('*', async (c, next) => {
+    await next()
+
+    const probe: DiscoveryProbe = {
+      at: new Date().toISOString(),
+      method: c.req.method,
+      path: c.req.path,
+      status: c.res.status,
+      ...(tags.get(c.req.raw) ?? { kind: 'other' }),
+      userAgent: c.req.header('User-Agent') ?? 'unknown',
+      clientId: getClientId(c),
+      bearer: /^Bearer /i.test(c.req.header('Authorization') ?? ''),
+    }
+
+    probes.push(probe)
+    if (probes.length > maxProbes) {
+      probes.shift()
+    }
+    console.log('MCP discovery probe', JSON.stringify(probe))
+  })
+
+  app.get(CHALLENGE_METADATA_PATH, tag('resource_metadata', 'www-authenticate'), serveMetadata('www-authenticate'))
+  app.get(RESOURCE_METADATA_PATH, tag('resource_metadata', 'root'), serveMetadata('root'))
+  if (config.mcpPath !== '/') {
+    app.get(`${RESOURCE_METADATA_PATH}${config.mcpPath}`, tag('resource_metadata', 'path-inserted'), serveMetadata('path-inserted'))
+  }
+
+  for (const path of [
+    '/.well-known/oauth-authorization-server',
+    '/.well-known/oauth-authorization-server/*',
+    '/.well-known/openid-configuration',
+    '/*/.well-known/openid-configuration',
+  ]) {
+    app.use(path, tag('authorization_server_metadata'))
+  }
+  app.use('/register', tag('registration'))
+  app.use('/authorize', tag('authorization'))
+  app.use('/token', tag('token'))
+  app.use(config.mcpPath, tag('mcp'))
+
+  return app
+}
+
+/**
+ * The client behind a request, from its token once authenticated, an
+ * unverified token otherwise, or the authorization request
+ */
+function getClientId(c: Context<McpAuthEnv>): string | undefined {
+  const claims = c.get('claims')
+  if (claims?.client_id) {
+    return claims.client_id
+  }
+
+  const token = c.req.header('Authorization')?.match(/^Bearer +([^ ]+)/i)?.[1]
+  if (token) {
+    try {
+      const { client_id } = decodeJwt(token)
+      if (typeof client_id === 'string') {
+        return client_id
+      }
+    } catch {
+      // Opaque or malformed tokens don't name their client
+    }
+  }
+
+  return c.req.query('client_id')
+}
+
+/**
+ * Group probes by User-Agent, in the order each client first showed up
+ */
+function summarize(probes: DiscoveryProbe[]) {
+  const clients = new Map<string, DiscoveryProbe[]>()
+  for (const probe of probes) {
+    clients.set(probe.userAgent, [...(clients.get(probe.userAgent) ?? []), probe])
+  }
+
+  return [...clients].map(([userAgent, probes]) => {
+    const strategies = probes.flatMap((probe) => (probe.strategy && probe.status < 400 ? [probe.strategy] : []))
+    return {
+      userAgent,
+      clientIds: [...new Set(probes.flatMap((probe) => (probe.clientId ? [probe.clientId] : [])))],
+      // The first metadata URL the client fetched
+      discoveryStrategy: strategies[0] ?? null,
+      resourceMetadataFetched: [...new Set(strategies)],
+      authorizationServerMetadataFetched: [
+        ...new Set(probes.filter((probe) => probe.kind === 'authorization_server_metadata').map((probe) => probe.path)),
+      ],
+      registered: probes.some((probe) => probe.kind === 'registration' && probe.status < 400),
+      authenticated: probes.some((probe) => probe.kind === 'mcp' && probe.bearer && probe.status < 400),
+      probes,
+    }
+  })
+}
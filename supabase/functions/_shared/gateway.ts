@@ -0,0 +1,258 @@
+import { Hono } from 'hono'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { decodeJwt } from 'jose'
+import { z } from 'zod'
+import { createAuditMiddleware } from './audit.ts'
+import {
+  createMcpAuth,
+  getSupportedScopes,
+  getUpstreamMetadataUrl,
+  getUrls,
+  type McpAuthConfig,
+  type McpAuthEnv,
+} from './auth.ts'
+import { createAuthorizationServerMetadata } from './authorization-server.ts'
+import { createMcpCors, getCorsOrigins } from './cors.ts'
+import { createRateLimitMiddleware } from './rate-limit.ts'
+import { getToolScopes } from './scopes.ts'
+import { createSessionManager } from './sessions.ts'
+import { getSupabaseAuthIssuers } from './supabase.ts'
+import { createOidcTokenValidator, createSupabaseTokenValidator, type TokenValidator } from './token-validators.ts'
+
+/**
+ * Registers a named group of tools on a server, e.g. with `registerTool`
+ */
+export type Toolset = (server: McpServer) => void
+
+const serverDefinitionSchema = z.object({
+  /** Reported as the MCP server name */
+  name: z.string().regex(/^[a-z0-9-]+$/, 'must be lowercase letters, digits and dashes'),
+  version: z.string().default('1.0.0'),
+  /** Prefix the server is mounted under, relative to the function */
+  path: z.string().regex(/^(\/[a-z0-9-]+)+$/, 'must look like /name'),
+  /** Keys into the gateway's toolsets */
+  toolsets: z.array(z.string()).min(1),
+  /** Defaults to the function URL plus `path` */
+  resourceUrl: z.url().optional(),
+  /**
+   * Defaults to the gateway itself, whose metadata sends clients to the
+   * project's Supabase Auth and token endpoint. Tokens from any other issuer
+   * listed are verified with OpenID Connect discovery.
+   */
+  authorizationServers: z.array(z.url()).min(1).optional(),
+  /** Accepted token audiences; defaults to the resource URL */
+  audiences: z.array(z.string()).min(1).optional(),
+  /** How identities from the other authorization servers act on Supabase, see ExternalIdentityOptions */
+  externalIdentity: z.object({
+    identity: z.enum(['third-party', 'linked-user']).optional(),
+    provisionUsers: z.boolean().optional(),
+    scopeClaim: z.string().optional(),
+    audienceClaim: z.string().optional(),
+  }).optional(),
+  /** Advertised as `scopes_supported`; defaults to the scopes its tools require */
+  scopesSupported: z.array(z.string()).optional(),
+  /** Scopes every request needs, on top of each tool's own */
+  requiredScopes: z.array(z.string()).optional(),
+  /** Origins browser clients may connect from; defaults to MCP_CORS_ORIGINS */
+  corsOrigins: z.array(z.string()).optional(),
+  /** Audit log redaction rules per tool */
+  redact: z.record(z.string(), z.union([z.literal('omit'), z.array(z.string())])).optional(),
+})
+
+const gatewayConfigSchema = z.object({
+  servers: z.array(serverDefinitionSchema).min(1),
+})
+
+/**
+ * Contents of a gateway's config file, see mcp-gateway/servers.json
+ */
+export type McpGatewayConfig = z.input<typeof gatewayConfigSchema>
+
+export type McpServerDefinition = z.output<typeof serverDefinitionSchema>
+
+export interface McpGatewayOptions
+  extends Pick<McpAuthConfig, 'tokenEndpoint' | 'registrationEndpoint' | 'revocationEndpoint'> {
+  /** Name of the edge function, its base path */
+  functionName: string
+  /** Parsed config file; validated here */
+  config: unknown
+  /** Toolsets servers can pick from by name */
+  toolsets: Record<string, Toolset>
+}
+
+/**
+ * Validate a gateway config file. Throws with every problem found, so a bad
+ * config stops the function at startup rather than on the first request.
+ */
+export function parseGatewayConfig(config: unknown, toolsets: Record<string, Toolset>): McpServerDefinition[] {
+  const result = gatewayConfigSchema.safeParse(config)
+  if (!result.success) {
+    throw new Error(`Invalid MCP gateway config:\n${z.prettifyError(result.error)}`)
+  }
+
+  const errors: string[] = []
+  const seen = { names: new Set<string>(), paths: new Set<string>() }
+  for (const server of result.data.servers) {
+    if (seen.names.has(server.name)) {
+      errors.push(`Duplicate server name ${server.name}`)
+    }
+    if (seen.paths.has(server.path)) {
+      errors.push(`Duplicate server path ${server.path}`)
+    }
+    seen.names.add(server.name)
+    seen.paths.add(server.path)
+
+    for (const toolset of server.toolsets) {
+      if (!toolsets[toolset]) {
+        errors.push(`Server ${server.name} uses unknown toolset ${toolset}`)
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid MCP gateway config:\n${errors.join('\n')}`)
+  }
+  return result.data.servers
+}
+
+/**
+ * Validator for a server that lists authorization servers besides the
+ * project's own: each token is checked by the validator for the issuer it
+ * names, and only for the server's audiences. Undefined when the server
+ * trusts only the project's own, so createMcpAuth's default applies.
+ */
+function createServerTokenValidator(
+  definition: McpServerDefinition,
+  audiences: string[],
+  ownAuthorizationServers: string[]
+): TokenValidator | undefined {
+  const authorizationServers = definition.authorizationServers ?? []
+  const external = authorizationServers.filter((issuer) => !ownAuthorizationServers.includes(issuer))
+  if (external.length === 0) {
+    return undefined
+  }
+
+  const validators = new Map<string, TokenValidator>()
+  for (const issuer of external) {
+    validators.set(issuer, createOidcTokenValidator({ ...definition.externalIdentity, issuer, audiences }))
+  }
+  if (external.length < authorizationServers.length) {
+    const supabase = createSupabaseTokenValidator({ audiences })
+    for (const issuer of getSupabaseAuthIssuers()) {
+      validators.set(issuer, supabase)
+    }
+  }
+
+  return (token) => {
+    let issuer: string | undefined
+    try {
+      issuer = decodeJwt(token).iss
+    } catch {
+      return Promise.resolve({ valid: false, reason: 'malformed', error: 'Token is not a JWT' })
+    }
+
+    const validator = issuer ? validators.get(issuer) : undefined
+    if (!validator) {
+      return Promise.resolve({ valid: false, reason: 'invalid', error: `Tokens issued by ${issuer} are not accepted` })
+    }
+    return validator(token)
+  }
+}
+
+/**
+ * Create one Hono app serving several MCP servers from a single function.
+ *
+ * Each server in the config is mounted under its `path` with its own resource
+ * URL, authorization servers, token validator, scopes, tools and sessions.
+ * Its protected resource metadata is served at the RFC 9728 path-inserted
+ * location, `/.well-known/oauth-protected-resource/<path>`, and advertised in
+ * its WWW-Authenticate challenges. Tokens must be issued for the server's
+ * resource URL, so a token for one server is not accepted by another.
+ *
+ * Servers that name no authorization servers advertise the gateway, which
+ * serves RFC 8414 metadata for them the way the `mcp` function does, with the
+ * endpoints in the options.
+ */
+export function createMcpGateway(options: McpGatewayOptions) {
+  const servers = parseGatewayConfig(options.config, options.toolsets)
+  const { mcpResourceUrl: functionUrl, wellKnownAuthorizationServerUrl } = getUrls(options.functionName)
+  const ownAuthorizationServers = [functionUrl, wellKnownAuthorizationServerUrl, ...getSupabaseAuthIssuers()]
+  const app = new Hono<McpAuthEnv>().basePath(`/${options.functionName}`)
+
+  const mounted = servers.map((definition) => {
+    // Each session gets its own instance, since a server serves a single transport
+    const createServer = () => {
+      const server = new McpServer({ name: definition.name, version: definition.version })
+      for (const toolset of definition.toolsets) {
+        options.toolsets[toolset](server)
+      }
+      return server
+    }
+
+    const resourceMetadataPath = `/.well-known/oauth-protected-resource${definition.path}`
+    const resourceUrl = definition.resourceUrl ?? `${functionUrl}${definition.path}`
+    const audiences = definition.audiences ?? [resourceUrl]
+    const authConfig: McpAuthConfig = {
+      resourceUrl,
+      authServerUrl: wellKnownAuthorizationServerUrl,
+      authorizationServers: definition.authorizationServers ?? [functionUrl],
+      tokenValidator: createServerTokenValidator(definition, audiences, ownAuthorizationServers),
+      audiences,
+      mcpPath: definition.path,
+      resourceMetadataPath,
+      resourceMetadataUrl: `${functionUrl}${resourceMetadataPath}`,
+      requiredScopes: definition.requiredScopes,
+      scopesSupported: definition.scopesSupported,
+      corsOrigins: definition.corsOrigins,
+      // Scopes are the same on every session's server, so read them from one instance
+      toolScopes: getToolScopes(createServer()),
+      // Diagnostics assume a single resource per function
+      diagnostics: false,
+    }
+    return { definition, createServer, authConfig }
+  })
+
+  // Directory of the servers behind this function
+  app.get('/', (c) => {
+    return c.json({
+      servers: mounted.map(({ definition, authConfig }) => ({
+        name: definition.name,
+        version: definition.version,
+        resource: authConfig.resourceUrl,
+        resourceMetadata: authConfig.resourceMetadataUrl,
+      })),
+    })
+  })
+
+  const corsOrigins = [
+    ...new Set(mounted.flatMap(({ definition }) => definition.corsOrigins ?? getCorsOrigins())),
+  ]
+  if (corsOrigins.length > 0) {
+    app.use('/.well-known/oauth-authorization-server', createMcpCors(corsOrigins))
+  }
+  app.route(
+    '/',
+    createAuthorizationServerMetadata({
+      issuer: functionUrl,
+      authServerUrl: wellKnownAuthorizationServerUrl,
+      upstreamMetadataUrl: getUpstreamMetadataUrl(wellKnownAuthorizationServerUrl),
+      scopesSupported: () => [
+        ...new Set(mounted.flatMap(({ authConfig }) => authConfig.scopesSupported ?? getSupportedScopes(authConfig))),
+      ],
+      tokenEndpoint: options.tokenEndpoint,
+      registrationEndpoint: options.registrationEndpoint,
+      revocationEndpoint: options.revocationEndpoint,
+    })
+  )
+
+  for (const { definition, createServer, authConfig } of mounted) {
+    const sessions = createSessionManager({ createServer })
+
+    app.route('/', createMcpAuth(authConfig))
+    app.use(definition.path, createAuditMiddleware({ functionName: `${options.functionName}/${definition.name}`, redact: definition.redact }))
+    app.use(definition.path, createRateLimitMiddleware())
+    app.on(['POST', 'GET', 'DELETE'], definition.path, (c) => sessions.handleRequest(c))
+  }
+
+  return app
+}
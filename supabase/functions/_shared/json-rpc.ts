@@ -0,0 +1,55 @@
+import type { Context } from 'hono'
+
+/**
+ * A JSON-RPC request or notification as sent by MCP clients
+ */
+export interface JsonRpcMessage {
+  jsonrpc?: string
+  id?: string | number | null
+  method?: string
+  params?: Record<string, unknown>
+}
+
+export interface ToolCall {
+  /** JSON-RPC request id, for answering the call with an error */
+  id: string | number | null
+  name: string
+  arguments: unknown
+}
+
+/**
+ * The JSON-RPC messages in a POST body, unpacking batches. Reads a clone so
+ * the transport can still consume the original body.
+ */
+export async function readJsonRpcMessages(c: Context): Promise<JsonRpcMessage[]> {
+  if (c.req.method !== 'POST') {
+    return []
+  }
+
+  let body: unknown
+  try {
+    body = await c.req.raw.clone().json()
+  } catch {
+    // Malformed bodies are rejected by the transport
+    return []
+  }
+
+  const messages = Array.isArray(body) ? body : [body]
+  return messages.filter((message): message is JsonRpcMessage => typeof message === 'object' && message !== null)
+}
+
+/**
+ * The tools/call requests in a POST body, including those inside a batch
+ */
+export async function getToolCalls(c: Context): Promise<ToolCall[]> {
+  return (await readJsonRpcMessages(c))
+    .filter((message) => message.method === 'tools/call' && typeof message.params?.name === 'string')
+    .map((message) => ({ id: message.id ?? null, name: message.params!.name as string, arguments: message.params!.arguments }))
+}
+
+/**
+ * A JSON-RPC error answering the whole request rather than one message
+ */
+export function jsonRpcError(c: Context, status: 400 | 403 | 404, code: number, message: string) {
+  return c.json({ jsonrpc: '2.0', error: { code, message }, id: null }, status)
+}
@@ -0,0 +1,151 @@
+import {
+  createRemoteJWKSet,
+  decodeJwt,
+  decodeProtectedHeader,
+  errors,
+  jwtVerify,
+  type JWTPayload,
+} from 'jose'
+
+/**
+ * Claims carried by a Supabase Auth access token
+ */
+export interface AccessTokenClaims extends JWTPayload {
+  sub: string
+  role?: string
+  email?: string
+  phone?: string
+  app_metadata?: Record<string, unknown>
+  user_metadata?: Record<string, unknown>
+  is_anonymous?: boolean
+  session_id?: string
+  client_id?: string
+  scope?: string
+  /** RFC 8707 resource indicator, set by authorization servers that don't bind it via `aud` */
+  resource?: string | string[]
+}
+
+/**
+ * Broad cause of a rejected token, which decides the response status
+ */
+export type TokenErrorReason = 'malformed' | 'expired' | 'wrong_audience' | 'invalid' | 'unavailable'
+
+export interface JwtVerificationResult {
+  valid: boolean
+  claims?: AccessTokenClaims
+  reason?: TokenErrorReason
+  error?: string
+}
+
+export interface JwtVerifierOptions {
+  /** JWKS endpoint publishing the asymmetric signing keys */
+  jwksUrl: string
+  /** Accepted `iss` values */
+  issuers: string[]
+  /**
+   * Accepted audiences; the token's `aud` or `resource` claim must contain at
+   * least one, so tokens minted for other resources are rejected
+   */
+  audiences: string[]
+  /**
+   * Validates tokens signed with a shared secret (HS256), which cannot be
+   * checked against the JWKS. Typically asks Supabase Auth via getUser().
+   */
+  verifySymmetric: (token: string) => Promise<{ valid: boolean; error?: string }>
+}
+
+/**
+ * Create a verifier for Supabase access tokens.
+ *
+ * Asymmetric tokens are verified locally against the project's JWKS. The key
+ * set is cached in memory and refetched when a token references an unknown
+ * `kid`, so key rotation is picked up without a round-trip per request.
+ * Legacy symmetric tokens fall back to `verifySymmetric`.
+ */
+export function createJwtVerifier(options: JwtVerifierOptions) {
+  const jwks = createRemoteJWKSet(new URL(options.jwksUrl))
+
+  return async (token: string): Promise<JwtVerificationResult> => {
+    let alg: string | undefined
+    try {
+      alg = decodeProtectedHeader(token).alg
+    } catch {
+      return { valid: false, reason: 'malformed', error: 'Malformed token' }
+    }
+
+    if (!alg || alg.startsWith('HS')) {
+      return verifySymmetricToken(token, options)
+    }
+
+    try {
+      const { payload } = await jwtVerify<AccessTokenClaims>(token, jwks, {
+        issuer: options.issuers,
+        requiredClaims: ['sub', 'exp'],
+      })
+      return checkAudience(payload, options.audiences)
+    } catch (err) {
+      return joseFailure(err)
+    }
+  }
+}
+
+async function verifySymmetricToken(token: string, options: JwtVerifierOptions): Promise<JwtVerificationResult> {
+  const { valid, error } = await options.verifySymmetric(token)
+  if (!valid) {
+    return { valid: false, reason: error && /expired/i.test(error) ? 'expired' : 'invalid', error: error || 'Invalid token' }
+  }
+
+  // Auth has checked the signature and expiry; iss and aud are still ours to check
+  const claims = decodeJwt<AccessTokenClaims>(token)
+  if (!claims.iss || !options.issuers.includes(claims.iss)) {
+    return { valid: false, reason: 'invalid', error: 'Unexpected token issuer' }
+  }
+
+  return checkAudience(claims, options.audiences)
+}
+
+/**
+ * Require the token to be bound to this resource (RFC 8707), either through
+ * `aud` or a `resource` claim. URLs are compared without trailing slashes.
+ */
+export function checkAudience(claims: AccessTokenClaims, audiences: string[]): JwtVerificationResult {
+  const normalize = (value: string) => value.replace(/\/+$/, '')
+  const accepted = audiences.map(normalize)
+  const presented = [claims.aud, claims.resource]
+    .flat()
+    .filter((value): value is string => typeof value === 'string')
+    .map(normalize)
+
+  if (!presented.some((value) => accepted.includes(value))) {
+    return { valid: false, reason: 'wrong_audience', error: 'Token audience does not match this resource' }
+  }
+
+  return { valid: true, claims }
+}
+
+/**
+ * Rejection for an error thrown while verifying a token. Failing to fetch the
+ * signing keys is reported as unavailable, not as a bad token.
+ */
+export function joseFailure(err: unknown): JwtVerificationResult {
+  if (err instanceof errors.JWTExpired) {
+    return { valid: false, reason: 'expired', error: 'Token expired' }
+  }
+  if (err instanceof errors.JWTClaimValidationFailed) {
+    return { valid: false, reason: 'invalid', error: `Invalid "${err.claim}" claim` }
+  }
+  if (err instanceof errors.JWSSignatureVerificationFailed) {
+    return { valid: false, reason: 'invalid', error: 'Invalid token signature' }
+  }
+  if (err instanceof errors.JWKSNoMatchingKey) {
+    return { valid: false, reason: 'invalid', error: 'Unknown signing key' }
+  }
+  if (err instanceof errors.JWSInvalid || err instanceof errors.JWTInvalid) {
+    return { valid: false, reason: 'malformed', error: err.message }
+  }
+  if (err instanceof errors.JWKSTimeout || !(err instanceof errors.JOSEError)) {
+    console.error(err)
+    return { valid: false, reason: 'unavailable', error: 'Unable to fetch signing keys' }
+  }
+  return { valid: false, reason: 'invalid', error: err.message }
+}
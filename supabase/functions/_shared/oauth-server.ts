@@ -0,0 +1,453 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Hono, type Context } from 'hono'
+import { cors } from 'hono/cors'
+import { decodeJwt } from 'jose'
+import { getTokenResource, getTokenSigningSecret, issueAccessToken } from './access-tokens.ts'
+import {
+  type AuthorizationCodeGrant,
+  issueAuthorizationCode,
+  redeemAuthorizationCode,
+} from './authorization-codes.ts'
+import { readClientCredentials } from './client-auth.ts'
+import { checkRedirectUris, getRedirectHosts, validateClientMetadata } from './client-registration.ts'
+import { createMcpCors, getCorsOrigins } from './cors.ts'
+import type { AccessTokenClaims } from './jwt.ts'
+import {
+  expiresIn,
+  getRefreshTokenPolicy,
+  issueRefreshToken,
+  refreshTokens,
+  type TokenResponse,
+} from './refresh-tokens.ts'
+import { revokeGrant, revokeToken } from './revocations.ts'
+import { SCOPE_CATALOGUE, SCOPE_GROUPS } from './scope-catalogue.ts'
+import { getGrantedScopes } from './scope-grants.ts'
+import { exchangeSupabaseCode } from './supabase-oauth.ts'
+import { createAdminClient } from './supabase.ts'
+
+/**
+ * RFC 6749 section 5.2 error response
+ */
+function oauthError(c: Context, error: string, errorDescription: string, status: 400 | 401 | 403 | 500 = 400) {
+  return c.json({ error, error_description: errorDescription }, status, {
+    'Cache-Control': 'no-store',
+    Pragma: 'no-cache',
+  })
+}
+
+/**
+ * RFC 6749 section 5.1 successful token response
+ */
+function tokenResponse(c: Context, tokens: TokenResponse) {
+  return c.json(
+    {
+      access_token: tokens.accessToken,
+      token_type: 'Bearer',
+      expires_in: tokens.expiresIn,
+      refresh_token: tokens.refreshToken,
+      ...(tokens.scope ? { scope: tokens.scope } : {}),
+    },
+    200,
+    { 'Cache-Control': 'no-store', Pragma: 'no-cache' }
+  )
+}
+
+/**
+ * Authenticate the client calling the token endpoint (RFC 6749 section 2.3).
+ * Confidential clients must present their secret and public clients must not.
+ * Supabase Auth stores only a hash of the secret, so it checks the secret
+ * itself: confidential clients' codes and refresh tokens are always redeemed
+ * there with the credentials presented here.
+ */
+async function authenticateClient(c: Context, supabase: SupabaseClient, body: Record<string, unknown>) {
+  const authorization = c.req.header('Authorization')
+  // RFC 6749 section 5.2: answer failed Basic authentication with a challenge
+  const invalidClient = (description: string) => {
+    if (authorization) {
+      c.header('WWW-Authenticate', 'Basic realm="oauth"')
+    }
+    return oauthError(c, 'invalid_client', description, 401)
+  }
+
+  const { credentials, error, errorDescription } = readClientCredentials(authorization, body)
+  if (!credentials) {
+    return {
+      error: error === 'invalid_client'
+        ? invalidClient(errorDescription!)
+        : oauthError(c, error!, errorDescription!),
+    }
+  }
+
+  const { data: client, error: clientError } = await supabase.auth.admin.oauth.getClient(credentials.clientId)
+  if (clientError || !client) {
+    return { error: invalidClient('Unknown client') }
+  }
+
+  const confidential = client.client_type === 'confidential'
+  if (confidential && !credentials.clientSecret) {
+    return { error: invalidClient('Client authentication is required') }
+  }
+  if (!confidential && credentials.clientSecret) {
+    return { error: invalidClient('Public clients do not authenticate with a secret') }
+  }
+
+  return { credentials, confidential }
+}
+
+/**
+ * Resolve the signed-in user from the consent app's Bearer token
+ */
+async function getSessionUser(c: Context, supabase: SupabaseClient) {
+  const [scheme, accessToken] = c.req.header('Authorization')?.split(' ') ?? []
+  if (scheme?.toLowerCase() !== 'bearer' || !accessToken) {
+    return { error: oauthError(c, 'invalid_request', 'Bearer token required', 401) }
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken)
+  if (error || !user) {
+    return { error: oauthError(c, 'invalid_token', error?.message || 'Invalid token', 401) }
+  }
+
+  return { user, accessToken }
+}
+
+/**
+ * Create the oauth function's app: the token, revocation and registration
+ * endpoints MCP clients use, and the endpoints the consent app calls on the
+ * signed-in user's behalf
+ */
+export function createOAuthServer() {
+  // Stop at startup without the secret or with a malformed policy, rather
+  // than on the first token request
+  getTokenSigningSecret()
+  const refreshTokenPolicy = getRefreshTokenPolicy()
+  const app = new Hono().basePath('/oauth')
+  const supabase = createAdminClient()
+
+  // CONSENT_APP_URL: Origin of the consent app, which calls /codes, /clients, /scopes and /grants/revoke from the browser
+  const consentAppOrigins = Deno.env.get('CONSENT_APP_URL')?.split(',').map((url) => url.trim()) ??
+    ['http://localhost:3000', 'http://127.0.0.1:3000']
+
+  app.onError((err, c) => {
+    console.error('OAuth endpoint error:', err)
+    return oauthError(c, 'server_error', 'Internal server error', 500)
+  })
+
+  const consentAppCors = cors({
+    origin: (origin) => (consentAppOrigins.includes(origin) ? origin : null),
+    allowMethods: ['GET', 'POST'],
+    allowHeaders: ['Authorization', 'Content-Type'],
+  })
+
+  app.use('/codes', consentAppCors)
+  app.use('/clients/*', consentAppCors)
+  app.use('/grants/revoke', consentAppCors)
+  app.use('/scopes', consentAppCors)
+
+  // Browser MCP clients register, redeem codes and revoke tokens from the same
+  // origins they call the MCP functions from
+  const mcpClientCors = createMcpCors(getCorsOrigins())
+
+  app.use('/register', mcpClientCors)
+  app.use('/token', mcpClientCors)
+  app.use('/revoke', mcpClientCors)
+
+  /**
+   * Issue an authorization code for the signed-in user
+   * Called by the consent app's callback page with the user's Supabase session,
+   * so the session token never appears in the client's redirect URL. The user
+   * must have approved the client on the consent page first.
+   */
+  app.post('/codes', async (c) => {
+    const { user, accessToken, error: authError } = await getSessionUser(c, supabase)
+    if (authError) {
+      return authError
+    }
+
+    const body = await c.req.json().catch(() => ({}))
+    const { client_id, redirect_uri, code_challenge, code_challenge_method, scope, resource, refresh_token } =
+      body as Record<string, string | undefined>
+
+    if (!client_id || !redirect_uri || !refresh_token) {
+      return oauthError(c, 'invalid_request', 'client_id, redirect_uri and refresh_token are required')
+    }
+
+    // The callback page reads these from its query string, so check them against
+    // the registered client before a code can be sent anywhere
+    const { data: client, error: clientError } = await supabase.auth.admin.oauth.getClient(client_id)
+    if (clientError || !client) {
+      return oauthError(c, 'invalid_request', 'Unknown client')
+    }
+
+    if (!client.redirect_uris.includes(redirect_uri)) {
+      return oauthError(c, 'invalid_request', 'redirect_uri is not registered for this client')
+    }
+
+    if (checkRedirectUris(client.redirect_uris).length > 0) {
+      return oauthError(c, 'invalid_request', 'Client does not meet the registration policy')
+    }
+
+    // Codes issued here are redeemed without a client secret, so confidential
+    // clients get theirs from Supabase Auth, which checks it
+    if (client.client_type === 'confidential') {
+      return oauthError(c, 'unauthorized_client', 'Confidential clients use the Supabase Auth authorization endpoint')
+    }
+
+    if (resource && !getTokenResource(resource)) {
+      return oauthError(c, 'invalid_target', 'resource is not served by this project')
+    }
+
+    // Only what the user approved for this client on the consent page can be
+    // granted; the callback page's query string can't widen it
+    const granted = await getGrantedScopes(supabase, user.id, client_id)
+    if (!granted) {
+      return oauthError(c, 'access_denied', 'The user has not approved this client', 403)
+    }
+    const scopes = scope ? scope.split(' ').filter((requested) => granted.includes(requested)) : granted
+
+    const { code, error } = await issueAuthorizationCode(supabase, {
+      userId: user.id,
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      codeChallenge: code_challenge ?? '',
+      codeChallengeMethod: code_challenge_method ?? '',
+      scope: scopes.length > 0 ? scopes.join(' ') : undefined,
+      resource,
+      sessionId: decodeJwt<AccessTokenClaims>(accessToken).session_id,
+      refreshToken: refresh_token,
+    })
+
+    if (!code) {
+      return oauthError(c, 'invalid_request', error || 'Failed to issue authorization code')
+    }
+
+    return c.json({ code }, 201, { 'Cache-Control': 'no-store' })
+  })
+
+  /**
+   * OAuth token endpoint (RFC 6749 section 3.2)
+   * Supports the authorization_code (with PKCE) and refresh_token grants
+   */
+  app.post('/token', async (c) => {
+    const body = await c.req.parseBody()
+    const param = (name: string) => (typeof body[name] === 'string' ? body[name] as string : '')
+
+    const { credentials, confidential, error: clientError } = await authenticateClient(c, supabase, body)
+    if (clientError) {
+      return clientError
+    }
+    const { clientId } = credentials
+
+    switch (param('grant_type')) {
+      case 'authorization_code': {
+        const code = param('code')
+        const redirectUri = param('redirect_uri')
+        const codeVerifier = param('code_verifier')
+
+        if (!code || !redirectUri || !codeVerifier) {
+          return oauthError(c, 'invalid_request', 'code, redirect_uri and code_verifier are required')
+        }
+
+        // Only public clients are issued codes here (see /codes)
+        const redeemed = confidential
+          ? { valid: false, unknown: true }
+          : await redeemAuthorizationCode(supabase, { code, clientId, redirectUri, codeVerifier })
+        let grant: Omit<AuthorizationCodeGrant, 'codeHash'> & { codeHash?: string }
+        if (redeemed.unknown) {
+          // Issued by Supabase Auth's /oauth/authorize once the user approved
+          // the request on the consent page
+          const upstream = await exchangeSupabaseCode({ code, redirectUri, codeVerifier, client: credentials })
+          if (!upstream.grant) {
+            const { error, errorDescription, status } = upstream.error!
+            return oauthError(c, error, errorDescription, status === 401 ? 401 : status >= 500 ? 500 : 400)
+          }
+          grant = { ...upstream.grant, resource: null }
+        } else if (redeemed.valid && redeemed.grant) {
+          grant = redeemed.grant
+        } else {
+          return oauthError(c, 'invalid_grant', redeemed.error || 'Invalid authorization code')
+        }
+
+        // RFC 8707: the resource may be named here or in the authorization request,
+        // but not differ between the two
+        const requested = param('resource') || undefined
+        if (requested && grant.resource && requested.replace(/\/+$/, '') !== grant.resource.replace(/\/+$/, '')) {
+          return oauthError(c, 'invalid_target', 'resource does not match the authorization request')
+        }
+        const resource = getTokenResource(requested ?? grant.resource ?? undefined)
+        if (!resource) {
+          return oauthError(c, 'invalid_target', 'resource is not served by this project')
+        }
+
+        const sessionId = grant.sessionId ?? undefined
+        const accessToken = await issueAccessToken(supabase, {
+          userId: grant.userId,
+          clientId: grant.clientId,
+          scope: grant.scope,
+          resource,
+          sessionId,
+        })
+        const refreshToken = await issueRefreshToken(supabase, {
+          userId: grant.userId,
+          clientId: grant.clientId,
+          scope: grant.scope,
+          resource,
+          upstreamRefreshToken: grant.refreshToken,
+          sessionId,
+          authorizationCodeHash: grant.codeHash,
+        })
+
+        return tokenResponse(c, {
+          accessToken,
+          refreshToken,
+          expiresIn: expiresIn(accessToken),
+          scope: grant.scope,
+        })
+      }
+
+      case 'refresh_token': {
+        const refreshToken = param('refresh_token')
+        if (!refreshToken) {
+          return oauthError(c, 'invalid_request', 'refresh_token is required')
+        }
+
+        const { valid, tokens, errorCode, error } = await refreshTokens(
+          supabase,
+          { refreshToken, client: credentials },
+          refreshTokenPolicy
+        )
+        if (!valid || !tokens) {
+          const status = errorCode === 'server_error' ? 500 : errorCode === 'invalid_client' ? 401 : 400
+          return oauthError(c, errorCode ?? 'invalid_grant', error || 'Invalid refresh token', status)
+        }
+
+        return tokenResponse(c, tokens)
+      }
+
+      default:
+        return oauthError(c, 'unsupported_grant_type', 'Supported grant types are authorization_code and refresh_token')
+    }
+  })
+
+  /**
+   * OAuth token revocation endpoint (RFC 7009)
+   * Responds 200 whether or not the token was known, so it reveals nothing
+   */
+  app.post('/revoke', async (c) => {
+    const body = await c.req.parseBody()
+    const token = typeof body.token === 'string' ? body.token : ''
+    const tokenTypeHint = typeof body.token_type_hint === 'string' ? body.token_type_hint : undefined
+    const { credentials, error, errorDescription } = readClientCredentials(c.req.header('Authorization'), body)
+
+    if (!credentials) {
+      return oauthError(c, error!, errorDescription!, error === 'invalid_client' ? 401 : 400)
+    }
+    if (!token) {
+      return oauthError(c, 'invalid_request', 'token is required')
+    }
+
+    await revokeToken(supabase, { token, clientId: credentials.clientId, tokenTypeHint })
+
+    return c.body(null, 200, { 'Cache-Control': 'no-store' })
+  })
+
+  /**
+   * Revoke a client's grant for the signed-in user
+   * Called by the consent app's connections page
+   */
+  app.post('/grants/revoke', async (c) => {
+    const { user, error: authError } = await getSessionUser(c, supabase)
+    if (authError) {
+      return authError
+    }
+
+    const body = await c.req.json().catch(() => ({}))
+    const { client_id } = body as Record<string, string | undefined>
+
+    if (!client_id) {
+      return oauthError(c, 'invalid_request', 'client_id is required')
+    }
+
+    await revokeGrant(supabase, user.id, client_id)
+
+    return c.body(null, 204)
+  })
+
+  /**
+   * Scope catalogue, rendered by the consent screen
+   */
+  app.get('/scopes', (c) => {
+    return c.json({ groups: SCOPE_GROUPS, scopes: SCOPE_CATALOGUE }, 200, { 'Cache-Control': 'public, max-age=300' })
+  })
+
+  /**
+   * Dynamic client registration (RFC 7591)
+   * Applies the registration policy, then registers the client with Supabase Auth
+   */
+  app.post('/register', async (c) => {
+    const metadata = await c.req.json().catch(() => null)
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return oauthError(c, 'invalid_client_metadata', 'Request body must be a JSON object')
+    }
+
+    const { valid, error, errorDescription } = validateClientMetadata(metadata)
+    if (!valid) {
+      return oauthError(c, error!, errorDescription!)
+    }
+
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/auth/v1/oauth/clients/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: Deno.env.get('SUPABASE_ANON_KEY')!,
+      },
+      body: JSON.stringify(metadata),
+    })
+
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    })
+  })
+
+  /**
+   * Trust information about a client, shown on the consent screen
+   * Clients registered straight with Supabase Auth bypass /register, so the
+   * policy is checked again here
+   */
+  app.get('/clients/:clientId', async (c) => {
+    const { error: authError } = await getSessionUser(c, supabase)
+    if (authError) {
+      return authError
+    }
+
+    const clientId = c.req.param('clientId')
+    const { data: client, error } = await supabase.auth.admin.oauth.getClient(clientId)
+    if (error || !client) {
+      return oauthError(c, 'invalid_request', 'Unknown client', 400)
+    }
+
+    const { data: verified, error: verifiedError } = await supabase
+      .from('oauth_verified_clients')
+      .select('client_id')
+      .eq('client_id', clientId)
+      .maybeSingle()
+
+    if (verifiedError) {
+      throw new Error(`Failed to look up verified client: ${verifiedError.message}`)
+    }
+
+    return c.json({
+      client_id: client.client_id,
+      client_name: client.client_name,
+      client_uri: client.client_uri ?? null,
+      redirect_hosts: getRedirectHosts(client.redirect_uris),
+      registration_type: client.registration_type,
+      created_at: client.created_at,
+      verified: Boolean(verified),
+      policy_errors: checkRedirectUris(client.redirect_uris),
+    })
+  })
+
+  return app
+}
@@ -0,0 +1,253 @@
+import type { Context, Next } from 'hono'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { McpAuthEnv } from './auth.ts'
+import { getToolCalls } from './json-rpc.ts'
+import { createAdminClient } from './supabase.ts'
+
+/**
+ * Token bucket: up to `capacity` requests at once, refilled continuously
+ */
+export interface RateLimit {
+  capacity: number
+  refillPerSecond: number
+}
+
+/**
+ * A bucket or a daily quota a request counts against. Keys are opaque strings
+ * built by the middleware.
+ */
+export type RateLimitCheck =
+  | { key: string; limit: RateLimit; cost?: number }
+  /** Uses a day, counted against a quota that resets at midnight UTC */
+  | { key: string; dailyQuota: number; cost?: number }
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Seconds until the request would be allowed */
+  retryAfterSeconds: number
+  /** Index of the check that refused the request */
+  denied?: number
+}
+
+/**
+ * Where counters are kept
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request against every check if all of them allow it, and against
+   * none otherwise, so a refused request uses nothing up
+   */
+  consume(checks: RateLimitCheck[]): Promise<RateLimitResult>
+}
+
+export interface RateLimitConfig {
+  /** Requests per user, across clients and tools */
+  user?: RateLimit
+  /** Requests per OAuth client, across users */
+  client?: RateLimit
+  /** Calls per user and tool; `tools` overrides it for individual tools */
+  tool?: RateLimit
+  tools?: Record<string, RateLimit>
+  /** Daily limits per user, and per user and tool (0 or unset means unlimited) */
+  dailyQuota?: {
+    user?: number
+    tool?: number
+    tools?: Record<string, number>
+  }
+  /** Defaults to the Postgres store */
+  store?: RateLimitStore
+}
+
+/**
+ * A limit of `requests` per minute, allowing bursts of the same size
+ */
+export function perMinute(requests: number): RateLimit {
+  return { capacity: requests, refillPerSecond: requests / 60 }
+}
+
+/**
+ * Read the default limits from the environment. Unset or empty values use the
+ * defaults, and zero disables the corresponding limit.
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  const number = (name: string, fallback: number) => {
+    const value = Number(Deno.env.get(name) || fallback)
+    if (!Number.isFinite(value)) {
+      throw new Error(`${name} must be a number`)
+    }
+    return value
+  }
+  const limit = (name: string, fallback: number) => (number(name, fallback) > 0 ? perMinute(number(name, fallback)) : undefined)
+
+  return {
+    user: limit('RATE_LIMIT_USER_PER_MINUTE', 120),
+    client: limit('RATE_LIMIT_CLIENT_PER_MINUTE', 600),
+    tool: limit('RATE_LIMIT_TOOL_PER_MINUTE', 60),
+    dailyQuota: {
+      user: number('DAILY_QUOTA_USER', 5000),
+      tool: number('DAILY_QUOTA_TOOL', 0),
+    },
+  }
+}
+
+/**
+ * Counters in Postgres, shared by every worker (see the rate_limit migration)
+ */
+export function createPostgresRateLimitStore(supabase: SupabaseClient = createAdminClient()): RateLimitStore {
+  return {
+    async consume(checks) {
+      const { data, error } = await supabase
+        .rpc('consume_rate_limits', {
+          p_checks: checks.map((check) =>
+            'dailyQuota' in check
+              ? { key: check.key, daily_quota: check.dailyQuota, cost: check.cost ?? 1 }
+              : {
+                key: check.key,
+                capacity: check.limit.capacity,
+                refill_per_second: check.limit.refillPerSecond,
+                cost: check.cost ?? 1,
+              }
+          ),
+        })
+        .single<{ allowed: boolean; retry_after_seconds: number; denied: number | null }>()
+
+      if (error) {
+        throw new Error(`Failed to consume rate limits: ${error.message}`)
+      }
+      return { allowed: data.allowed, retryAfterSeconds: data.retry_after_seconds, denied: data.denied ?? undefined }
+    },
+  }
+}
+
+/**
+ * Counters in the worker's memory, for tests and single-worker setups
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>()
+  const quotas = new Map<string, number>()
+
+  // Whether a check allows the request, and how to count the request against it
+  function evaluate(check: RateLimitCheck, time: number): { waitSeconds?: number; count: () => void } {
+    const cost = check.cost ?? 1
+
+    if ('dailyQuota' in check) {
+      const day = new Date(time).toISOString().slice(0, 10)
+      const quotaKey = `${check.key}:${day}`
+      const used = quotas.get(quotaKey) ?? 0
+
+      if (used + cost > check.dailyQuota) {
+        const resetsAt = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000
+        return { waitSeconds: (resetsAt - time) / 1000, count: () => {} }
+      }
+      return { count: () => quotas.set(quotaKey, used + cost) }
+    }
+
+    const { limit } = check
+    const bucket = buckets.get(check.key) ?? { tokens: limit.capacity, updatedAt: time }
+    const tokens = Math.min(limit.capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * limit.refillPerSecond)
+
+    if (tokens < cost) {
+      return { waitSeconds: (cost - tokens) / limit.refillPerSecond, count: () => {} }
+    }
+    return { count: () => buckets.set(check.key, { tokens: tokens - cost, updatedAt: time }) }
+  }
+
+  return {
+    consume(checks) {
+      const time = now()
+      const evaluated = checks.map((check) => evaluate(check, time))
+
+      // Report the longest wait, after which every check allows the request
+      let denied: number | undefined
+      evaluated.forEach(({ waitSeconds }, index) => {
+        if (waitSeconds !== undefined && (denied === undefined || waitSeconds > evaluated[denied].waitSeconds!)) {
+          denied = index
+        }
+      })
+      if (denied !== undefined) {
+        return Promise.resolve({ allowed: false, retryAfterSeconds: evaluated[denied].waitSeconds!, denied })
+      }
+
+      evaluated.forEach(({ count }) => count())
+      return Promise.resolve({ allowed: true, retryAfterSeconds: 0 })
+    },
+  }
+}
+
+/**
+ * Create the rate limiting middleware for an MCP endpoint.
+ *
+ * Mount it after the auth middleware, which identifies the user and client.
+ * Requests over a limit get HTTP 429 with Retry-After; tool calls also get a
+ * JSON-RPC error answering the call. If the store is unreachable requests
+ * are let through, so an outage of the counters doesn't take the server down.
+ */
+export function createRateLimitMiddleware(config: RateLimitConfig = getRateLimitConfig()) {
+  const store = config.store ?? createPostgresRateLimitStore()
+
+  return async (c: Context<McpAuthEnv>, next: Next) => {
+    const user = c.get('user')
+    const clientId = c.get('authInfo').clientId
+    const toolCalls = await getToolCalls(c)
+
+    const checks: { label: string; check: RateLimitCheck }[] = []
+    if (config.user) {
+      checks.push({ label: 'user', check: { key: `user:${user.id}`, limit: config.user } })
+    }
+    if (config.client && clientId) {
+      checks.push({ label: 'client', check: { key: `client:${clientId}`, limit: config.client } })
+    }
+    if (config.dailyQuota?.user) {
+      checks.push({ label: 'daily user quota', check: { key: `user:${user.id}`, dailyQuota: config.dailyQuota.user } })
+    }
+
+    // A batch calling a tool several times counts each call
+    const callsPerTool = new Map<string, number>()
+    for (const { name } of toolCalls) {
+      callsPerTool.set(name, (callsPerTool.get(name) ?? 0) + 1)
+    }
+    for (const [name, cost] of callsPerTool) {
+      const limit = config.tools?.[name] ?? config.tool
+      if (limit) {
+        checks.push({ label: `tool ${name}`, check: { key: `tool:${user.id}:${name}`, limit, cost } })
+      }
+      const quota = config.dailyQuota?.tools?.[name] ?? config.dailyQuota?.tool
+      if (quota) {
+        checks.push({
+          label: `daily quota for tool ${name}`,
+          check: { key: `tool:${user.id}:${name}`, dailyQuota: quota, cost },
+        })
+      }
+    }
+
+    let result: RateLimitResult = { allowed: true, retryAfterSeconds: 0 }
+    if (checks.length > 0) {
+      try {
+        result = await store.consume(checks.map(({ check }) => check))
+      } catch (err) {
+        console.error(err)
+      }
+    }
+
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(result.retryAfterSeconds))
+      const message = `Rate limit exceeded (${checks[result.denied ?? 0].label}), retry in ${retryAfter}s`
+      const headers = { 'Retry-After': String(retryAfter) }
+
+      if (toolCalls.length > 0) {
+        return c.json(
+          {
+            jsonrpc: '2.0',
+            error: { code: -32000, message, data: { retryAfter } },
+            id: toolCalls.length === 1 ? toolCalls[0].id : null,
+          },
+          429,
+          headers
+        )
+      }
+      return c.json({ error: 'rate_limited', error_description: message }, 429, headers)
+    }
+
+    await next()
+  }
+}
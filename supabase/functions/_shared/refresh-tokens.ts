@@ -0,0 +1,313 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decodeJwt } from 'jose'
+import { getDefaultTokenResource, issueAccessToken } from './access-tokens.ts'
+import { generateOpaqueToken, sha256Hex } from './crypto.ts'
+import { type ClientCredentials, refreshSupabaseToken } from './supabase-oauth.ts'
+import { createAnonClient } from './supabase.ts'
+
+/**
+ * Rotation settings, mirroring `enable_refresh_token_rotation` and
+ * `refresh_token_reuse_interval` under [auth] in config.toml
+ */
+export interface RefreshTokenPolicy {
+  /** Issue a new refresh token on every use */
+  rotation: boolean
+  /** Seconds after rotation during which the previous token is still honoured */
+  reuseIntervalSeconds: number
+}
+
+/**
+ * How often a refresh is retried after losing a rotation race
+ */
+const MAX_ROTATION_ATTEMPTS = 3
+
+/**
+ * Errors with which Supabase Auth reports that the upstream session is gone,
+ * as opposed to failing to refresh it this time
+ */
+const SESSION_ENDED_ERRORS = ['invalid_grant', 'refresh_token_not_found', 'session_not_found']
+
+export interface IssueRefreshTokenParams {
+  userId: string
+  clientId: string
+  scope: string | null
+  /** RFC 8707 resource the access tokens are issued for */
+  resource: string
+  /** Supabase refresh token used to mint new access tokens; never leaves the server */
+  upstreamRefreshToken: string
+  /** Supabase Auth session behind the upstream token, revoked with the grant */
+  sessionId?: string
+  /** Continue an existing family; a new family is started when omitted */
+  familyId?: string
+  parentHash?: string
+  /** Code the family was issued for, so the family can be revoked if the code is replayed */
+  authorizationCodeHash?: string
+}
+
+export interface RefreshResult {
+  valid: boolean
+  tokens?: TokenResponse
+  /** RFC 6749 section 5.2 error code; `server_error` may be retried with the same token */
+  errorCode?: 'invalid_grant' | 'invalid_client' | 'server_error'
+  error?: string
+}
+
+export interface TokenResponse {
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+  scope: string | null
+}
+
+/**
+ * Read the rotation policy from the environment. An unset or empty reuse
+ * interval defaults to 10 seconds.
+ */
+export function getRefreshTokenPolicy(): RefreshTokenPolicy {
+  const reuseIntervalSeconds = Number(Deno.env.get('REFRESH_TOKEN_REUSE_INTERVAL') || 10)
+  if (!Number.isFinite(reuseIntervalSeconds) || reuseIntervalSeconds < 0) {
+    throw new Error('REFRESH_TOKEN_REUSE_INTERVAL must be a number of seconds')
+  }
+
+  return {
+    rotation: Deno.env.get('REFRESH_TOKEN_ROTATION') !== 'false',
+    reuseIntervalSeconds,
+  }
+}
+
+/**
+ * Issue an opaque refresh token. Only its hash is stored.
+ */
+export async function issueRefreshToken(supabase: SupabaseClient, params: IssueRefreshTokenParams): Promise<string> {
+  const token = generateOpaqueToken()
+
+  const { error } = await supabase.from('oauth_refresh_tokens').insert({
+    token_hash: await sha256Hex(token),
+    family_id: params.familyId ?? crypto.randomUUID(),
+    parent_hash: params.parentHash ?? null,
+    authorization_code_hash: params.authorizationCodeHash ?? null,
+    user_id: params.userId,
+    client_id: params.clientId,
+    scope: params.scope,
+    resource: params.resource,
+    upstream_refresh_token: params.upstreamRefreshToken,
+    session_id: params.sessionId ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to store refresh token: ${error.message}`)
+  }
+
+  return token
+}
+
+/**
+ * Exchange a refresh token for new tokens (RFC 6749 section 6).
+ *
+ * With rotation on, the presented token is retired and a new one issued in
+ * the same family. Presenting a retired token within the reuse interval (e.g.
+ * two requests racing) is honoured and supersedes the token issued first;
+ * presenting it later is treated as theft and revokes the whole family.
+ */
+export async function refreshTokens(
+  supabase: SupabaseClient,
+  params: { refreshToken: string; client: ClientCredentials },
+  policy: RefreshTokenPolicy = getRefreshTokenPolicy(),
+  attempt = 1
+): Promise<RefreshResult> {
+  const tokenHash = await sha256Hex(params.refreshToken)
+
+  const { data: row, error } = await supabase
+    .from('oauth_refresh_tokens')
+    .select()
+    .eq('token_hash', tokenHash)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up refresh token: ${error.message}`)
+  }
+  if (!row || row.revoked_at) {
+    return { valid: false, error: 'Refresh token is invalid or has been revoked' }
+  }
+  if (row.client_id !== params.client.clientId) {
+    return { valid: false, error: 'Refresh token was issued to another client' }
+  }
+
+  if (row.rotated_at) {
+    const rotatedAgo = (Date.now() - new Date(row.rotated_at).getTime()) / 1000
+    if (rotatedAgo > policy.reuseIntervalSeconds) {
+      await revokeRefreshTokenFamily(supabase, row.family_id)
+      return { valid: false, error: 'Refresh token has already been used' }
+    }
+
+    // Within the reuse interval: retire the sibling issued by the first request
+    const { error: retireError } = await supabase
+      .from('oauth_refresh_tokens')
+      .update({ rotated_at: new Date().toISOString() })
+      .eq('parent_hash', tokenHash)
+      .is('rotated_at', null)
+
+    if (retireError) {
+      throw new Error(`Failed to retire refresh token: ${retireError.message}`)
+    }
+  } else if (policy.rotation) {
+    // Retire the token; losing this race means another request rotated it
+    // first, and the retry takes the reuse interval path
+    const { data: claimed, error: rotateError } = await supabase
+      .from('oauth_refresh_tokens')
+      .update({ rotated_at: new Date().toISOString() })
+      .eq('token_hash', tokenHash)
+      .is('rotated_at', null)
+      .select('token_hash')
+      .maybeSingle()
+
+    if (rotateError) {
+      throw new Error(`Failed to rotate refresh token: ${rotateError.message}`)
+    }
+    if (!claimed) {
+      if (attempt >= MAX_ROTATION_ATTEMPTS) {
+        throw new Error('Failed to rotate refresh token: too many concurrent refreshes')
+      }
+      return refreshTokens(supabase, params, policy, attempt + 1)
+    }
+  }
+
+  const upstream = await refreshUpstreamToken(row.upstream_refresh_token, params.client)
+  if (!upstream.refreshToken) {
+    const code = upstream.error?.code
+    if (code && SESSION_ENDED_ERRORS.includes(code)) {
+      // The upstream session is gone (signed out, user deleted), so this family is too
+      await revokeRefreshTokenFamily(supabase, row.family_id)
+      return { valid: false, errorCode: 'invalid_grant', error: upstream.error?.message || 'Session has expired' }
+    }
+
+    // Anything else (an outage, a wrong client secret) leaves the family alone,
+    // and the token usable again rather than retired
+    if (policy.rotation && !row.rotated_at) {
+      await restoreRefreshToken(supabase, tokenHash)
+    }
+    return code === 'invalid_client'
+      ? { valid: false, errorCode: 'invalid_client', error: upstream.error?.message }
+      : { valid: false, errorCode: 'server_error', error: 'Failed to refresh the session, try again' }
+  }
+
+  // Families issued before tokens were bound to a resource are bound to the default one
+  const resource: string = row.resource ?? getDefaultTokenResource()
+  const accessToken = await issueAccessToken(supabase, {
+    userId: row.user_id,
+    clientId: row.client_id,
+    scope: row.scope,
+    resource,
+    sessionId: row.session_id ?? undefined,
+  })
+
+  let refreshToken = params.refreshToken
+  if (policy.rotation) {
+    refreshToken = await issueRefreshToken(supabase, {
+      userId: row.user_id,
+      clientId: row.client_id,
+      scope: row.scope,
+      resource,
+      upstreamRefreshToken: upstream.refreshToken,
+      sessionId: row.session_id ?? undefined,
+      familyId: row.family_id,
+      parentHash: tokenHash,
+    })
+  } else {
+    const { error: updateError } = await supabase
+      .from('oauth_refresh_tokens')
+      .update({ upstream_refresh_token: upstream.refreshToken, resource })
+      .eq('token_hash', tokenHash)
+
+    if (updateError) {
+      throw new Error(`Failed to update refresh token: ${updateError.message}`)
+    }
+  }
+
+  return {
+    valid: true,
+    tokens: {
+      accessToken,
+      refreshToken,
+      expiresIn: expiresIn(accessToken),
+      scope: row.scope,
+    },
+  }
+}
+
+/**
+ * Refresh the Supabase refresh token behind a family. Confidential clients'
+ * grants always come from Supabase Auth's OAuth 2.1 server, and are refreshed
+ * there with the client's credentials, which Supabase Auth checks; the others
+ * may hold the session the user signed in with on the callback page.
+ */
+async function refreshUpstreamToken(
+  refreshToken: string,
+  client: ClientCredentials
+): Promise<{ refreshToken?: string; error?: { code?: string; message: string } }> {
+  if (client.clientSecret) {
+    const { refreshToken: refreshed, error } = await refreshSupabaseToken({ refreshToken, client })
+    if (!refreshed) {
+      return { error: { code: error?.error, message: error?.errorDescription || 'Refresh token was rejected' } }
+    }
+    return { refreshToken: refreshed }
+  }
+
+  const { data: { session }, error } = await createAnonClient().auth.refreshSession({ refresh_token: refreshToken })
+  if (error || !session) {
+    return { error: { code: error?.code, message: error?.message || 'Session has expired' } }
+  }
+  return { refreshToken: session.refresh_token }
+}
+
+/**
+ * Undo the rotation of a refresh token whose refresh failed
+ */
+async function restoreRefreshToken(supabase: SupabaseClient, tokenHash: string) {
+  const { error } = await supabase
+    .from('oauth_refresh_tokens')
+    .update({ rotated_at: null })
+    .eq('token_hash', tokenHash)
+
+  if (error) {
+    throw new Error(`Failed to restore refresh token: ${error.message}`)
+  }
+}
+
+/**
+ * Revoke every refresh token in a family
+ */
+export async function revokeRefreshTokenFamily(supabase: SupabaseClient, familyId: string) {
+  const { error } = await supabase
+    .from('oauth_refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('family_id', familyId)
+    .is('revoked_at', null)
+
+  if (error) {
+    throw new Error(`Failed to revoke refresh token family: ${error.message}`)
+  }
+}
+
+/**
+ * Revoke the families issued for an authorization code, e.g. when it is replayed
+ */
+export async function revokeRefreshTokensForCode(supabase: SupabaseClient, authorizationCodeHash: string) {
+  const { error } = await supabase
+    .from('oauth_refresh_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('authorization_code_hash', authorizationCodeHash)
+    .is('revoked_at', null)
+
+  if (error) {
+    throw new Error(`Failed to revoke refresh tokens: ${error.message}`)
+  }
+}
+
+/**
+ * Seconds until an access token expires
+ */
+export function expiresIn(accessToken: string): number {
+  const { exp = 0 } = decodeJwt(accessToken)
+  return Math.max(0, exp - Math.floor(Date.now() / 1000))
+}
@@ -0,0 +1,98 @@
+import type { Context, Next } from 'hono'
+import { SUPPORTED_PROTOCOL_VERSIONS } from '@modelcontextprotocol/sdk/types.js'
+import { jsonRpcError } from './json-rpc.ts'
+import { isLocalSupabase } from './supabase.ts'
+
+export interface RequestValidationConfig {
+  /** Check the Origin and Host headers */
+  validateOrigin: boolean
+  /** Origins browser requests may come from; `*` allows any */
+  allowedOrigins: string[]
+  /** Hostnames the endpoint may be reached under, ports ignored */
+  allowedHosts: string[]
+  /** Accepted MCP-Protocol-Version values (defaults to those the MCP SDK supports) */
+  protocolVersions?: string[]
+}
+
+/**
+ * Whether Origin and Host are checked: MCP_VALIDATE_ORIGIN if set, otherwise
+ * only for the local stack, which is reachable from any page in the browser
+ */
+export function isOriginValidationEnabled(): boolean {
+  const setting = Deno.env.get('MCP_VALIDATE_ORIGIN')
+  if (setting === 'true' || setting === 'false') {
+    return setting === 'true'
+  }
+  return isLocalSupabase(Deno.env.get('SUPABASE_URL')!)
+}
+
+/**
+ * Hostnames a resource is served under: MCP_ALLOWED_HOSTS as a comma-separated
+ * list, or the resource URL's host, plus localhost for the local stack
+ */
+export function getAllowedHosts(resourceUrl: string): string[] {
+  const configured = Deno.env.get('MCP_ALLOWED_HOSTS')?.split(',').map((host) => host.trim()).filter(Boolean) ?? []
+  if (configured.length > 0) {
+    return configured.map((host) => getHostname(host) ?? host)
+  }
+
+  const local = isLocalSupabase(Deno.env.get('SUPABASE_URL')!) ? ['localhost', '127.0.0.1'] : []
+  return [...new Set([new URL(resourceUrl).hostname, ...local])]
+}
+
+/**
+ * Hostname of a Host header value, without the port
+ */
+function getHostname(host: string): string | undefined {
+  try {
+    return new URL(`http://${host}`).hostname
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Create the middleware that screens requests to an MCP endpoint before auth.
+ *
+ * With `validateOrigin`, browser requests from origins outside the allow-list
+ * and requests addressed to an unknown host get a 403, as the Streamable HTTP
+ * transport requires to prevent DNS rebinding: a page whose domain resolves to
+ * 127.0.0.1 otherwise reaches a local server as a same-origin request. Behind
+ * a proxy the original host is read from X-Forwarded-Host. Requests without
+ * an Origin header, such as those from desktop clients, pass the Origin check.
+ *
+ * An MCP-Protocol-Version header naming a version the server doesn't support
+ * gets a 400. Requests without one are left to the transport, which assumes
+ * the oldest version for backwards compatibility.
+ */
+export function createRequestValidationMiddleware(config: RequestValidationConfig) {
+  const protocolVersions = config.protocolVersions ?? SUPPORTED_PROTOCOL_VERSIONS
+  const anyOrigin = config.allowedOrigins.includes('*')
+
+  return async (c: Context, next: Next) => {
+    if (config.validateOrigin) {
+      const origin = c.req.header('Origin')
+      if (origin && !anyOrigin && !config.allowedOrigins.includes(origin)) {
+        return jsonRpcError(c, 403, -32000, `Forbidden: Origin ${origin} is not allowed`)
+      }
+
+      const host = c.req.header('X-Forwarded-Host')?.split(',')[0].trim() ?? c.req.header('Host')
+      const hostname = host ? getHostname(host) : undefined
+      if (!hostname || !config.allowedHosts.includes(hostname)) {
+        return jsonRpcError(c, 403, -32000, `Forbidden: Host ${host ?? '(missing)'} is not allowed`)
+      }
+    }
+
+    const protocolVersion = c.req.header('MCP-Protocol-Version')
+    if (protocolVersion !== undefined && !protocolVersions.includes(protocolVersion)) {
+      return jsonRpcError(
+        c,
+        400,
+        -32000,
+        `Bad Request: Unsupported protocol version ${protocolVersion} (supported versions: ${protocolVersions.join(', ')})`
+      )
+    }
+
+    await next()
+  }
+}
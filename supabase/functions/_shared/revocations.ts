@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decodeJwt } from 'jose'
+import { verifyIssuedAccessToken } from './access-tokens.ts'
+import { sha256Hex } from './crypto.ts'
+import type { AccessTokenClaims } from './jwt.ts'
+
+/**
+ * How long a revocation lookup is reused. Bounds how long a revoked token
+ * keeps working on a warm worker.
+ */
+const REVOCATION_CACHE_TTL_MS = 30 * 1000
+
+/**
+ * Minimum time between last-used updates for one user and client
+ */
+const ACTIVITY_INTERVAL_MS = 5 * 60 * 1000
+
+const revocationCache = new Map<string, { revoked: boolean; expiresAt: number }>()
+const lastActivity = new Map<string, number>()
+
+/**
+ * Check whether a verified access token belongs to a revoked grant or session
+ */
+export async function isTokenRevoked(supabase: SupabaseClient, claims: AccessTokenClaims): Promise<boolean> {
+  const key = `${claims.sub}:${claims.client_id ?? ''}:${claims.session_id ?? ''}:${claims.iat ?? ''}`
+  const cached = revocationCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.revoked
+  }
+
+  const { data, error } = await supabase.rpc('is_oauth_token_revoked', {
+    p_user_id: claims.sub,
+    p_client_id: claims.client_id ?? null,
+    p_session_id: claims.session_id ?? null,
+    p_issued_at: new Date((claims.iat ?? 0) * 1000).toISOString(),
+  })
+
+  if (error) {
+    throw new Error(`Failed to check token revocation: ${error.message}`)
+  }
+
+  const now = Date.now()
+  for (const [cachedKey, entry] of revocationCache) {
+    if (entry.expiresAt <= now) {
+      revocationCache.delete(cachedKey)
+    }
+  }
+  revocationCache.set(key, { revoked: data === true, expiresAt: now + REVOCATION_CACHE_TTL_MS })
+
+  return data === true
+}
+
+/**
+ * Revoke everything a client holds for a user: refresh tokens, the sessions
+ * behind them and access tokens issued so far
+ */
+export async function revokeGrant(supabase: SupabaseClient, userId: string, clientId: string) {
+  const { error } = await supabase.rpc('revoke_oauth_grant', { p_user_id: userId, p_client_id: clientId })
+
+  if (error) {
+    throw new Error(`Failed to revoke grant: ${error.message}`)
+  }
+}
+
+/**
+ * Revoke a token presented to the revocation endpoint (RFC 7009).
+ *
+ * A refresh token revokes the whole grant it belongs to. An access token
+ * revokes its session, or its grant when it carries no session. Unknown,
+ * invalid or foreign tokens are ignored, as the RFC requires.
+ */
+export async function revokeToken(
+  supabase: SupabaseClient,
+  params: { token: string; clientId: string; tokenTypeHint?: string }
+) {
+  const lookups = params.tokenTypeHint === 'access_token'
+    ? [revokeAccessToken, revokeRefreshToken]
+    : [revokeRefreshToken, revokeAccessToken]
+
+  for (const lookup of lookups) {
+    if (await lookup(supabase, params.token, params.clientId)) {
+      return
+    }
+  }
+}
+
+async function revokeRefreshToken(supabase: SupabaseClient, token: string, clientId: string): Promise<boolean> {
+  const { data: row, error } = await supabase
+    .from('oauth_refresh_tokens')
+    .select('user_id, client_id')
+    .eq('token_hash', await sha256Hex(token))
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up refresh token: ${error.message}`)
+  }
+  if (!row) {
+    return false
+  }
+
+  if (row.client_id === clientId) {
+    await revokeGrant(supabase, row.user_id, row.client_id)
+  }
+  return true
+}
+
+async function revokeAccessToken(supabase: SupabaseClient, token: string, clientId: string): Promise<boolean> {
+  // Supabase Auth doesn't know the tokens the oauth function issues; those are verified here
+  const issued = await verifyIssuedAccessToken(token)
+  if (!issued) {
+    const { data: { user } } = await supabase.auth.getUser(token)
+    if (!user) {
+      return false
+    }
+  }
+
+  const claims = issued ?? decodeJwt<AccessTokenClaims>(token)
+  if (claims.client_id && claims.client_id !== clientId) {
+    return true
+  }
+
+  if (claims.session_id) {
+    const { error } = await supabase
+      .from('oauth_revocations')
+      .insert({ user_id: claims.sub, client_id: clientId, session_id: claims.session_id })
+
+    if (error) {
+      throw new Error(`Failed to revoke session: ${error.message}`)
+    }
+
+    // Also stop the session's refresh tokens from minting new access tokens
+    if (issued) {
+      const { error: refreshError } = await supabase
+        .from('oauth_refresh_tokens')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('user_id', claims.sub)
+        .eq('client_id', clientId)
+        .eq('session_id', claims.session_id)
+        .is('revoked_at', null)
+
+      if (refreshError) {
+        throw new Error(`Failed to revoke refresh tokens: ${refreshError.message}`)
+      }
+    } else {
+      await supabase.auth.admin.signOut(token, 'local')
+    }
+  } else {
+    await revokeGrant(supabase, claims.sub, clientId)
+  }
+  return true
+}
+
+/**
+ * Record that a client used its grant, for the consent app's connections page.
+ * Writes at most once per ACTIVITY_INTERVAL_MS per user and client per worker.
+ * The client's name and logo come from the grant the consent app recorded.
+ */
+export async function recordClientActivity(supabase: SupabaseClient, claims: AccessTokenClaims) {
+  const key = `${claims.sub}:${claims.client_id ?? claims.session_id ?? ''}`
+  const now = Date.now()
+  if (now - (lastActivity.get(key) ?? 0) < ACTIVITY_INTERVAL_MS) {
+    return
+  }
+  lastActivity.set(key, now)
+
+  const { error } = await supabase.rpc('touch_oauth_client_activity', {
+    p_user_id: claims.sub,
+    p_client_id: claims.client_id ?? null,
+    p_session_id: claims.session_id ?? null,
+    p_scope: claims.scope ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to record client activity: ${error.message}`)
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Text in each supported locale; `en` is the fallback
+ */
+export type LocalizedText = { en: string } & Record<string, string>
+
+export type ScopeRisk = 'low' | 'medium' | 'high'
+
+export interface ScopeDefinition {
+  scope: string
+  /** Key into SCOPE_GROUPS */
+  group: string
+  title: LocalizedText
+  description: LocalizedText
+  risk: ScopeRisk
+  /** Always granted; the consent screen doesn't let users decline it */
+  required?: boolean
+  /**
+   * Tools the scope unlocks, listed on the consent screen. Servers refuse to
+   * start when a tool requiring the scope is missing.
+   */
+  tools?: string[]
+}
+
+/**
+ * Headings the consent screen groups scopes under, in display order
+ */
+export const SCOPE_GROUPS: Record<string, LocalizedText> = {
+  account: { en: 'Your account', pt: 'A sua conta' },
+  tools: { en: 'MCP tools', pt: 'Ferramentas MCP' },
+  notes: { en: 'Your notes', pt: 'As suas notas' },
+}
+
+/**
+ * Every scope the MCP servers and the consent app know about. Servers
+ * advertise the ones they use as `scopes_supported`, and the consent app
+ * renders them via the oauth function's GET /scopes.
+ */
+export const SCOPE_CATALOGUE: ScopeDefinition[] = [
+  {
+    scope: 'openid',
+    group: 'account',
+    title: { en: 'Sign you in', pt: 'Iniciar sessão com a sua conta' },
+    description: {
+      en: 'Confirm who you are to this application.',
+      pt: 'Confirmar a sua identidade perante esta aplicação.',
+    },
+    risk: 'low',
+    required: true,
+  },
+  {
+    scope: 'profile',
+    group: 'account',
+    title: { en: 'View your basic profile', pt: 'Ver o seu perfil básico' },
+    description: {
+      en: 'Your name and profile picture.',
+      pt: 'O seu nome e fotografia de perfil.',
+    },
+    risk: 'low',
+  },
+  {
+    scope: 'email',
+    group: 'account',
+    title: { en: 'View your email address', pt: 'Ver o seu endereço de email' },
+    description: {
+      en: 'The email address on your account.',
+      pt: 'O endereço de email associado à sua conta.',
+    },
+    risk: 'low',
+  },
+  {
+    scope: 'mcp:tools',
+    group: 'tools',
+    title: { en: 'Use MCP tools on your behalf', pt: 'Usar ferramentas MCP em seu nome' },
+    description: {
+      en: 'Call general-purpose tools that don\'t touch your data.',
+      pt: 'Chamar ferramentas genéricas que não acedem aos seus dados.',
+    },
+    risk: 'low',
+    tools: ['add'],
+  },
+  {
+    scope: 'notes:read',
+    group: 'notes',
+    title: { en: 'Read your notes', pt: 'Ler as suas notas' },
+    description: {
+      en: 'List, open and search the notes in your account.',
+      pt: 'Listar, abrir e pesquisar as notas da sua conta.',
+    },
+    risk: 'medium',
+    tools: ['list_notes', 'get_notes', 'rpc_search_notes'],
+  },
+  {
+    scope: 'notes:write',
+    group: 'notes',
+    title: { en: 'Create and change your notes', pt: 'Criar e alterar as suas notas' },
+    description: {
+      en: 'Add new notes and edit existing ones on your behalf.',
+      pt: 'Adicionar novas notas e editar as existentes em seu nome.',
+    },
+    risk: 'high',
+    tools: ['insert_notes', 'update_notes'],
+  },
+]
+
+/**
+ * Look up a scope's definition
+ */
+export function getScopeDefinition(scope: string): ScopeDefinition | undefined {
+  return SCOPE_CATALOGUE.find((definition) => definition.scope === scope)
+}
+
+/**
+ * Check that every scope a server uses is in the catalogue, and every tool is
+ * listed under the scopes it requires, so the consent screen can explain
+ * them. Throws otherwise, so drift stops the server at startup.
+ */
+export function assertScopesCatalogued(requiredScopes: string[], toolScopes: Map<string, string[]> = new Map()) {
+  const unknown = new Set(requiredScopes.filter((scope) => !getScopeDefinition(scope)))
+  const unlisted: string[] = []
+
+  for (const [tool, scopes] of toolScopes) {
+    for (const scope of scopes) {
+      const definition = getScopeDefinition(scope)
+      if (!definition) {
+        unknown.add(scope)
+      } else if (!definition.tools?.includes(tool)) {
+        unlisted.push(`${tool} (${scope})`)
+      }
+    }
+  }
+
+  const errors = [
+    ...(unknown.size > 0 ? [`Scopes missing from the scope catalogue: ${[...unknown].join(', ')}`] : []),
+    ...(unlisted.length > 0 ? [`Tools missing from their scope's catalogue entry: ${unlisted.join(', ')}`] : []),
+  ]
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'))
+  }
+}
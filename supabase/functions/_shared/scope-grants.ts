@@ -0,0 +1,63 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/**
+ * How long a user's granted scopes are reused before being read again
+ */
+const GRANT_CACHE_TTL_MS = 30 * 1000
+
+const grantCache = new Map<string, { scopes: string[] | null; expiresAt: number }>()
+
+/**
+ * Scopes the user kept checked when approving the client on the consent
+ * screen, or null when no choice was recorded
+ */
+export async function getGrantedScopes(
+  supabase: SupabaseClient,
+  userId: string,
+  clientId: string
+): Promise<string[] | null> {
+  const key = `${userId}:${clientId}`
+  const cached = grantCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.scopes
+  }
+
+  const { data, error } = await supabase
+    .from('oauth_scope_grants')
+    .select('scopes')
+    .eq('user_id', userId)
+    .eq('client_id', clientId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up granted scopes: ${error.message}`)
+  }
+
+  const now = Date.now()
+  for (const [cachedKey, entry] of grantCache) {
+    if (entry.expiresAt <= now) {
+      grantCache.delete(cachedKey)
+    }
+  }
+
+  const scopes: string[] | null = data?.scopes ?? null
+  grantCache.set(key, { scopes, expiresAt: now + GRANT_CACHE_TTL_MS })
+  return scopes
+}
+
+/**
+ * Narrow a token's scopes to those the user granted its client
+ */
+export async function narrowToGrantedScopes(
+  supabase: SupabaseClient,
+  userId: string,
+  clientId: string | undefined,
+  scopes: string[]
+): Promise<string[]> {
+  if (!clientId) {
+    return scopes
+  }
+
+  const granted = await getGrantedScopes(supabase, userId, clientId)
+  return granted ? scopes.filter((scope) => granted.includes(scope)) : scopes
+}
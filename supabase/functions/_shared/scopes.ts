@@ -0,0 +1,32 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+
+/**
+ * Tool name -> scopes a token needs to call it, per MCP server
+ */
+const toolScopes = new WeakMap<McpServer, Map<string, string[]>>()
+
+/**
+ * Parse the space-delimited `scope` claim of an access token
+ */
+export function parseScopes(scope: unknown): string[] {
+  return typeof scope === 'string' ? scope.split(' ').filter(Boolean) : []
+}
+
+/**
+ * Return the required scopes that are not in the granted set
+ */
+export function missingScopes(granted: string[], required: string[]): string[] {
+  return required.filter((scope) => !granted.includes(scope))
+}
+
+/**
+ * Scopes declared by tools registered through `registerTool` (see tools.ts), keyed by tool name
+ */
+export function getToolScopes(server: McpServer): Map<string, string[]> {
+  let scopes = toolScopes.get(server)
+  if (!scopes) {
+    scopes = new Map()
+    toolScopes.set(server, scopes)
+  }
+  return scopes
+}
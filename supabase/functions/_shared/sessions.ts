@@ -0,0 +1,128 @@
+import type { Context } from 'hono'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import type { McpAuthEnv } from './auth.ts'
+import { jsonRpcError } from './json-rpc.ts'
+import { setSpanError, withSpan } from './telemetry.ts'
+import { syncToolsToScopes } from './tools.ts'
+
+export interface SessionManagerOptions {
+  /** Build a fresh MCP server for each session; a server can only serve one transport */
+  createServer: () => McpServer
+  /** How long a session may go without requests before it is closed */
+  idleTimeoutMs?: number
+}
+
+interface Session {
+  server: McpServer
+  transport: WebStandardStreamableHTTPServerTransport
+  userId: string
+  lastActiveAt: number
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+/**
+ * Stateful Streamable HTTP sessions for an MCP endpoint.
+ *
+ * An initialize POST creates a session and its Mcp-Session-Id. Later POSTs,
+ * GETs (server-to-client SSE streams) and DELETEs (session termination) are
+ * routed to that session's transport. Sessions are bound to the user who
+ * created them and expire after a period of inactivity.
+ *
+ * Sessions live in the worker's memory, so a session ends if the edge runtime
+ * recycles the worker; clients then receive a 404 and re-initialize.
+ */
+export function createSessionManager(options: SessionManagerOptions) {
+  const sessions = new Map<string, Session>()
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+
+  async function expireIdleSessions() {
+    const now = Date.now()
+    for (const [sessionId, session] of sessions) {
+      if (now - session.lastActiveAt > idleTimeoutMs) {
+        sessions.delete(sessionId)
+        await session.transport.close()
+      }
+    }
+  }
+
+  /**
+   * Handle an authenticated MCP request; run after the auth middleware
+   */
+  function handleRequest(c: Context<McpAuthEnv>): Promise<Response> {
+    return withSpan('mcp.transport.handle_request', { 'mcp.session.id': c.req.header('Mcp-Session-Id') }, async (span) => {
+      const response = await routeRequest(c)
+      span.setAttribute('http.response.status_code', response.status)
+      if (response.status >= 400) {
+        setSpanError(span, String(response.status))
+      }
+      return response
+    })
+  }
+
+  async function routeRequest(c: Context<McpAuthEnv>): Promise<Response> {
+    await expireIdleSessions()
+
+    const user = c.get('user')
+    const authInfo = c.get('authInfo')
+    const sessionId = c.req.header('Mcp-Session-Id')
+
+    if (sessionId) {
+      const session = sessions.get(sessionId)
+
+      // Another user's session is reported as missing so IDs can't be probed
+      if (!session || session.userId !== user.id) {
+        return jsonRpcError(c, 404, -32001, 'Session not found')
+      }
+
+      session.lastActiveAt = Date.now()
+      // Scopes can change between requests, e.g. after a step-up authorization
+      syncToolsToScopes(session.server, authInfo.scopes)
+      return session.transport.handleRequest(c.req.raw, { authInfo })
+    }
+
+    if (c.req.method !== 'POST') {
+      return jsonRpcError(c, 400, -32000, 'Bad Request: Mcp-Session-Id header is required')
+    }
+
+    let body: unknown
+    try {
+      body = await c.req.json()
+    } catch {
+      return jsonRpcError(c, 400, -32700, 'Parse error: Invalid JSON')
+    }
+
+    const messages = Array.isArray(body) ? body : [body]
+    if (!messages.some((message) => isInitializeRequest(message))) {
+      return jsonRpcError(c, 400, -32000, 'Bad Request: No valid session ID provided')
+    }
+
+    // Only list the tools the caller's token may call
+    const server = options.createServer()
+    syncToolsToScopes(server, authInfo.scopes)
+
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, userId: user.id, lastActiveAt: Date.now() })
+      },
+      onsessionclosed: (id) => {
+        sessions.delete(id)
+      },
+    })
+
+    // Set before connecting; the server chains its own close handler onto it
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId)
+      }
+    }
+
+    await withSpan('mcp.server.connect', {}, () => server.connect(transport))
+    return transport.handleRequest(c.req.raw, { parsedBody: body, authInfo })
+  }
+
+  return { handleRequest }
+}
@@ -0,0 +1,116 @@
+import { decodeJwt } from 'jose'
+import type { AccessTokenClaims } from './jwt.ts'
+
+/**
+ * Credentials a client presented to the token endpoint, passed on to Supabase
+ * Auth, which checks them against the registered client
+ */
+export interface ClientCredentials {
+  clientId: string
+  clientSecret?: string
+}
+
+/**
+ * A grant Supabase Auth's OAuth 2.1 server approved, as redeemed by the oauth
+ * function before it issues tokens bound to an MCP resource
+ */
+export interface SupabaseGrant {
+  userId: string
+  clientId: string
+  scope: string | null
+  sessionId: string | null
+  /** Supabase refresh token for the grant; never leaves the server */
+  refreshToken: string
+}
+
+/**
+ * RFC 6749 section 5.2 error returned by Supabase Auth's token endpoint
+ */
+export interface SupabaseTokenError {
+  error: string
+  errorDescription: string
+  status: number
+}
+
+/**
+ * Redeem an authorization code issued by Supabase Auth's `/oauth/authorize`
+ * after the user approved the request on the consent page. Supabase Auth
+ * checks the client, redirect URI and PKCE verifier; its tokens are for
+ * Supabase itself (`aud: authenticated`), so they are not handed to the client.
+ */
+export async function exchangeSupabaseCode(params: {
+  code: string
+  redirectUri: string
+  codeVerifier: string
+  client: ClientCredentials
+}): Promise<{ grant?: SupabaseGrant; error?: SupabaseTokenError }> {
+  const { result, error } = await requestSupabaseToken(params.client, {
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+  })
+  if (!result) {
+    return { error }
+  }
+
+  const claims = decodeJwt<AccessTokenClaims>(result.access_token)
+  return {
+    grant: {
+      userId: claims.sub,
+      clientId: params.client.clientId,
+      scope: result.scope ?? claims.scope ?? null,
+      sessionId: claims.session_id ?? null,
+      refreshToken: result.refresh_token,
+    },
+  }
+}
+
+/**
+ * Refresh a Supabase refresh token issued to a client by Supabase Auth's
+ * OAuth 2.1 server, authenticating as the client
+ */
+export async function refreshSupabaseToken(params: {
+  refreshToken: string
+  client: ClientCredentials
+}): Promise<{ refreshToken?: string; error?: SupabaseTokenError }> {
+  const { result, error } = await requestSupabaseToken(params.client, {
+    grant_type: 'refresh_token',
+    refresh_token: params.refreshToken,
+  })
+  return result ? { refreshToken: result.refresh_token } : { error }
+}
+
+/**
+ * Call Supabase Auth's OAuth token endpoint with the client's credentials
+ */
+async function requestSupabaseToken(
+  client: ClientCredentials,
+  grant: Record<string, string>
+): Promise<{ result?: { access_token: string; refresh_token: string; scope?: string }; error?: SupabaseTokenError }> {
+  const body = new URLSearchParams({ ...grant, client_id: client.clientId })
+  if (client.clientSecret) {
+    body.set('client_secret', client.clientSecret)
+  }
+
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/auth/v1/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      apikey: Deno.env.get('SUPABASE_ANON_KEY')!,
+    },
+    body,
+  })
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok || typeof result.access_token !== 'string' || typeof result.refresh_token !== 'string') {
+    return {
+      error: {
+        error: typeof result.error === 'string' ? result.error : 'server_error',
+        errorDescription: result.error_description || `Supabase Auth token request failed with ${response.status}`,
+        status: response.status,
+      },
+    }
+  }
+  return { result }
+}
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Whether SUPABASE_URL points at the local stack (Docker uses kong:8000 internally)
+ */
+export function isLocalSupabase(supabaseUrl: string) {
+  return supabaseUrl.includes('127.0.0.1') || supabaseUrl.includes('localhost') || supabaseUrl.includes('kong:8000')
+}
+
+/**
+ * Issuers Supabase Auth stamps on its access tokens. Locally, Auth uses the
+ * host-facing API URL, so both loopback spellings are accepted.
+ */
+export function getSupabaseAuthIssuers(): string[] {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  return isLocalSupabase(supabaseUrl)
+    ? ['http://127.0.0.1:54321/auth/v1', 'http://localhost:54321/auth/v1']
+    : [`${supabaseUrl}/auth/v1`]
+}
+
+/**
+ * Supabase client acting as the holder of `token`, so Row Level Security applies
+ */
+export function createUserClient(token: string) {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: {
+      headers: { Authorization: `Bearer ${token}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
+/**
+ * Supabase client without a user, e.g. for token endpoints acting on a user's behalf
+ */
+export function createAnonClient() {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
+
+/**
+ * Supabase client with the service role key; bypasses RLS, so only use it for
+ * tables no user may touch directly
+ */
+export function createAdminClient() {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
@@ -0,0 +1,204 @@
+import type { Context, Next } from 'hono'
+import { context, metrics, propagation, SpanKind, SpanStatusCode, trace, type Attributes, type Span } from '@opentelemetry/api'
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks'
+import { W3CTraceContextPropagator } from '@opentelemetry/core'
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http'
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http'
+import { resourceFromAttributes } from '@opentelemetry/resources'
+import { MeterProvider, PeriodicExportingMetricReader, type IMetricReader } from '@opentelemetry/sdk-metrics'
+import { BasicTracerProvider, BatchSpanProcessor, type SpanExporter, type SpanProcessor } from '@opentelemetry/sdk-trace-base'
+import type { AuthFailureKind } from './auth-errors.ts'
+
+export interface TelemetryConfig {
+  /** Reported as service.name (OTEL_SERVICE_NAME takes precedence) */
+  serviceName: string
+  /**
+   * Where spans go. Defaults to OTLP/HTTP when OTEL_EXPORTER_OTLP_ENDPOINT is
+   * set; pass e.g. an InMemorySpanExporter to inspect spans locally.
+   */
+  spanExporter?: SpanExporter
+  /** How metrics are collected. Defaults to a periodic OTLP/HTTP export. */
+  metricReader?: IMetricReader
+}
+
+const INSTRUMENTATION_NAME = 'mcp-auth-edge'
+
+const tracer = trace.getTracer(INSTRUMENTATION_NAME)
+
+let providers: { tracerProvider: BasicTracerProvider; meterProvider: MeterProvider } | undefined
+let instruments: ReturnType<typeof createInstruments> | undefined
+
+/**
+ * Set up tracing and metrics for an edge function. Call it once, before the
+ * app handles requests.
+ *
+ * Nothing is recorded unless OTEL_EXPORTER_OTLP_ENDPOINT points at a collector
+ * or exporters are passed in. The standard OTEL_EXPORTER_OTLP_* variables
+ * (headers, per-signal endpoints) and OTEL_METRIC_EXPORT_INTERVAL apply.
+ * Pending spans and metrics are flushed when the runtime shuts the worker
+ * down.
+ */
+export function initTelemetry(config: TelemetryConfig) {
+  if (providers) {
+    return
+  }
+
+  const exportToCollector = Boolean(Deno.env.get('OTEL_EXPORTER_OTLP_ENDPOINT'))
+  if (!exportToCollector && !config.spanExporter && !config.metricReader) {
+    return
+  }
+
+  const resource = resourceFromAttributes({
+    'service.name': Deno.env.get('OTEL_SERVICE_NAME') ?? config.serviceName,
+  })
+
+  const spanProcessors: SpanProcessor[] = []
+  if (config.spanExporter ?? exportToCollector) {
+    spanProcessors.push(new BatchSpanProcessor(config.spanExporter ?? new OTLPTraceExporter()))
+  }
+
+  const readers: IMetricReader[] = []
+  if (config.metricReader) {
+    readers.push(config.metricReader)
+  } else if (exportToCollector) {
+    readers.push(new PeriodicExportingMetricReader({ exporter: new OTLPMetricExporter() }))
+  }
+
+  const tracerProvider = new BasicTracerProvider({ resource, spanProcessors })
+  const meterProvider = new MeterProvider({ resource, readers })
+
+  // Spans started while handling a request become children of its span
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable())
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator())
+  trace.setGlobalTracerProvider(tracerProvider)
+  metrics.setGlobalMeterProvider(meterProvider)
+
+  providers = { tracerProvider, meterProvider }
+  // Instruments created before now belong to the no-op meter
+  instruments = undefined
+
+  globalThis.addEventListener('beforeunload', () => {
+    flushTelemetry().catch((err) => console.error('Failed to flush telemetry:', err))
+  })
+}
+
+/**
+ * Export pending spans and metrics now
+ */
+export async function flushTelemetry() {
+  await Promise.all([providers?.tracerProvider.forceFlush(), providers?.meterProvider.forceFlush()])
+}
+
+function createInstruments() {
+  const meter = metrics.getMeter(INSTRUMENTATION_NAME)
+  return {
+    authFailures: meter.createCounter('mcp.auth.failures', {
+      description: 'Requests rejected by the auth middleware, by reason',
+    }),
+    authDuration: meter.createHistogram('mcp.auth.duration', {
+      description: 'Time spent validating access tokens',
+      unit: 'ms',
+    }),
+    toolDuration: meter.createHistogram('mcp.tool.duration', {
+      description: 'Tool execution time, by tool and outcome',
+      unit: 'ms',
+    }),
+  }
+}
+
+function getInstruments() {
+  instruments ??= createInstruments()
+  return instruments
+}
+
+/**
+ * Run `fn` inside a new span, ending it when `fn` settles. Thrown errors are
+ * recorded on the span and rethrown.
+ */
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => T | Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span)
+    } catch (err) {
+      span.recordException(err as Error)
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message })
+      span.setAttribute('error.type', (err as Error).name)
+      throw err
+    } finally {
+      span.end()
+    }
+  })
+}
+
+/**
+ * Mark a span as failed without an exception, e.g. for a rejected token
+ */
+export function setSpanError(span: Span, errorType: string, message?: string) {
+  span.setStatus({ code: SpanStatusCode.ERROR, message })
+  span.setAttribute('error.type', errorType)
+}
+
+/**
+ * Add attributes to the span of the code currently running, e.g. the request
+ */
+export function setActiveSpanAttributes(attributes: Attributes) {
+  trace.getActiveSpan()?.setAttributes(attributes)
+}
+
+/**
+ * Count a request the auth middleware refused, by reason
+ */
+export function recordAuthFailure(reason: AuthFailureKind, attributes: Attributes = {}) {
+  getInstruments().authFailures.add(1, { ...attributes, 'mcp.auth.failure_reason': reason })
+  trace.getActiveSpan()?.setAttribute('mcp.auth.failure_reason', reason)
+}
+
+export function recordAuthDuration(durationMs: number, attributes: Attributes = {}) {
+  getInstruments().authDuration.record(durationMs, attributes)
+}
+
+export function recordToolDuration(durationMs: number, attributes: Attributes) {
+  getInstruments().toolDuration.record(durationMs, attributes)
+}
+
+/**
+ * Create the middleware that opens a server span for each request to an MCP
+ * endpoint. Auth, transport and tool spans nest under it, and a W3C
+ * traceparent header from the client continues the client's trace.
+ */
+export function createTelemetryMiddleware() {
+  return async (c: Context, next: Next) => {
+    const parentContext = propagation.extract(context.active(), c.req.raw.headers, {
+      get: (headers, key) => headers.get(key) ?? undefined,
+      keys: (headers) => [...headers.keys()],
+    })
+
+    await tracer.startActiveSpan(
+      `${c.req.method} ${c.req.routePath}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'http.request.method': c.req.method,
+          'url.path': c.req.path,
+          'mcp.session.id': c.req.header('Mcp-Session-Id'),
+        },
+      },
+      parentContext,
+      async (span) => {
+        try {
+          await next()
+          span.setAttribute('http.response.status_code', c.res.status)
+          if (c.res.status >= 500) {
+            span.setStatus({ code: SpanStatusCode.ERROR })
+          }
+        } catch (err) {
+          span.recordException(err as Error)
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message })
+          throw err
+        } finally {
+          span.end()
+        }
+      }
+    )
+  }
+}
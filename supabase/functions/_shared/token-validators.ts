@@ -0,0 +1,511 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose'
+import { getTokenSigningSecret, isSupabaseAudience, signSupabaseToken } from './access-tokens.ts'
+import type { AuthUser } from './auth.ts'
+import { sha256Hex } from './crypto.ts'
+import { checkAudience, createJwtVerifier, joseFailure, type AccessTokenClaims, type TokenErrorReason } from './jwt.ts'
+import { createAdminClient, getSupabaseAuthIssuers } from './supabase.ts'
+
+export interface TokenValidationResult {
+  valid: boolean
+  user?: AuthUser
+  claims?: AccessTokenClaims
+  /**
+   * Issued by an authorization server other than Supabase Auth. Supabase Auth
+   * grants, revocations and declined scopes don't apply to such tokens.
+   */
+  external?: boolean
+  /** Token for Supabase requests made as the caller, when not the presented one */
+  supabaseToken?: string
+  reason?: TokenErrorReason
+  error?: string
+}
+
+/**
+ * Checks a bearer token and identifies its caller. Pass one to
+ * `createMcpAuth` as `tokenValidator` to accept tokens from another
+ * authorization server.
+ */
+export type TokenValidator = (token: string) => Promise<TokenValidationResult>
+
+export interface SupabaseTokenValidatorOptions {
+  /** Accepted token audiences */
+  audiences: string[]
+  /** JWKS endpoint (defaults to the project's Supabase Auth) */
+  jwksUrl?: string
+  /** Accepted token issuers (defaults to the project's Supabase Auth) */
+  issuers?: string[]
+}
+
+/**
+ * How an identity from another authorization server acts on Supabase:
+ * - 'third-party': the token is passed through as is. Supabase accepts it when
+ *   the issuer is enabled under `[auth.third_party.*]` in config.toml, and RLS
+ *   policies see the external subject in `auth.jwt()->>'sub'`.
+ * - 'linked-user': the identity is linked to a Supabase user in
+ *   `oauth_external_identities`, and requests run as that user with a
+ *   short-lived token signed with MCP_TOKEN_SIGNING_SECRET, so `auth.uid()` works.
+ */
+export type ExternalIdentityMode = 'third-party' | 'linked-user'
+
+export interface ExternalIdentityOptions {
+  /** Defaults to 'third-party' */
+  identity?: ExternalIdentityMode
+  /** With 'linked-user', create and link a Supabase user on first sign-in */
+  provisionUsers?: boolean
+  /**
+   * Claim carrying the granted scopes, as a space-separated string or an array
+   * (defaults to `scope`; Auth0 puts API permissions in `permissions`)
+   */
+  scopeClaim?: string
+}
+
+export interface OidcTokenValidatorOptions extends ExternalIdentityOptions {
+  /** Issuer URL; its keys are found through OIDC discovery */
+  issuer: string
+  /** Accepted token audiences */
+  audiences: string[]
+  /** Claim holding the audience (defaults to `aud`; Cognito access tokens use `client_id`) */
+  audienceClaim?: string
+}
+
+export interface IntrospectionTokenValidatorOptions extends ExternalIdentityOptions {
+  /** RFC 7662 introspection endpoint */
+  introspectionEndpoint: string
+  /** Credentials this resource authenticates to the endpoint with */
+  clientId: string
+  clientSecret: string
+  /** Issuer the identities belong to; responses naming another issuer are rejected */
+  issuer: string
+  /** Accepted token audiences */
+  audiences: string[]
+  /** How long an introspection response is reused, bounded by the token's expiry */
+  cacheTtlMs?: number
+}
+
+/**
+ * Issuer URLs of the providers in config.toml's `[auth.third_party.*]` sections
+ */
+export const thirdPartyIssuers = {
+  auth0: (tenant: string, tenantRegion?: string) => `https://${tenant}${tenantRegion ? `.${tenantRegion}` : ''}.auth0.com/`,
+  awsCognito: (userPoolId: string, userPoolRegion: string) =>
+    `https://cognito-idp.${userPoolRegion}.amazonaws.com/${userPoolId}`,
+  clerk: (domain: string) => `https://${domain}`,
+  firebase: (projectId: string) => `https://securetoken.google.com/${projectId}`,
+}
+
+const DEFAULT_INTROSPECTION_CACHE_TTL_MS = 60 * 1000
+
+/**
+ * Default settings for verifying Supabase Auth access tokens. Keys are
+ * fetched through SUPABASE_URL, which is reachable from inside the edge
+ * runtime.
+ */
+function getSupabaseJwtDefaults() {
+  return {
+    jwksUrl: `${Deno.env.get('SUPABASE_URL')}/auth/v1/.well-known/jwks.json`,
+    issuers: getSupabaseAuthIssuers(),
+  }
+}
+
+/**
+ * Validate a symmetric token locally with MCP_TOKEN_SIGNING_SECRET, which
+ * covers the tokens the oauth function issues and legacy Supabase Auth tokens
+ */
+async function validateSymmetricToken(token: string): Promise<{ valid: boolean; error?: string }> {
+  try {
+    await jwtVerify(token, getTokenSigningSecret(), { algorithms: ['HS256'], requiredClaims: ['sub', 'exp'] })
+    return { valid: true }
+  } catch (err) {
+    return { valid: false, error: joseFailure(err).error }
+  }
+}
+
+/**
+ * Validate access tokens issued by the project's Supabase Auth
+ */
+export function createSupabaseTokenValidator(options: SupabaseTokenValidatorOptions): TokenValidator {
+  // Stop at startup without the secret, rather than on the first token
+  getTokenSigningSecret()
+  const defaults = getSupabaseJwtDefaults()
+  const verifyJwt = createJwtVerifier({
+    jwksUrl: options.jwksUrl ?? defaults.jwksUrl,
+    issuers: options.issuers ?? defaults.issuers,
+    audiences: options.audiences,
+    verifySymmetric: validateSymmetricToken,
+  })
+
+  return async (token) => {
+    const { valid, claims, reason, error } = await verifyJwt(token)
+
+    if (!valid || !claims) {
+      return { valid: false, reason, error }
+    }
+
+    // Tokens bound to an MCP resource aren't accepted by Supabase, so tools
+    // call it with a token of their own rather than passing this one through
+    if (isSupabaseAudience(claims)) {
+      return { valid: true, user: userFromClaims(claims), claims }
+    }
+
+    try {
+      return { valid: true, user: userFromClaims(claims), claims, supabaseToken: await signSupabaseToken(claims) }
+    } catch (err) {
+      console.error(err)
+      return { valid: false, reason: 'unavailable', error: 'Unable to call Supabase on behalf of the caller' }
+    }
+  }
+}
+
+function userFromClaims(claims: AccessTokenClaims): AuthUser {
+  return {
+    id: claims.sub,
+    email: claims.email,
+    phone: claims.phone,
+    role: claims.role ?? 'authenticated',
+    app_metadata: claims.app_metadata ?? {},
+    user_metadata: claims.user_metadata ?? {},
+    is_anonymous: claims.is_anonymous,
+  }
+}
+
+/**
+ * Validate JWT access tokens from any OpenID Connect provider, e.g. Auth0,
+ * Clerk or Cognito. The provider's JWKS is found through
+ * `/.well-known/openid-configuration` on first use and cached; keys are
+ * refetched when a token references an unknown `kid`.
+ */
+export function createOidcTokenValidator(options: OidcTokenValidatorOptions): TokenValidator {
+  let jwks: ReturnType<typeof createRemoteJWKSet> | undefined
+
+  async function getJwks() {
+    if (!jwks) {
+      const discoveryUrl = `${options.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+      const response = await fetch(discoveryUrl)
+      if (!response.ok) {
+        throw new Error(`OIDC discovery failed with ${response.status}`)
+      }
+
+      const metadata = await response.json()
+      if (metadata.issuer !== options.issuer) {
+        throw new Error(`OIDC discovery returned issuer ${metadata.issuer}, expected ${options.issuer}`)
+      }
+      jwks = createRemoteJWKSet(new URL(metadata.jwks_uri))
+    }
+    return jwks
+  }
+
+  return async (token) => {
+    let payload: JWTPayload
+    try {
+      payload = (await jwtVerify(token, await getJwks(), { issuer: options.issuer, requiredClaims: ['sub', 'exp'] })).payload
+    } catch (err) {
+      if (!jwks) {
+        console.error(err)
+        return { valid: false, reason: 'unavailable', error: 'Unable to reach the authorization server' }
+      }
+      return joseFailure(err)
+    }
+
+    const audienceClaim = options.audienceClaim ?? 'aud'
+    const audience = checkAudience({ sub: payload.sub!, aud: payload[audienceClaim] as string | string[] }, options.audiences)
+    if (!audience.valid) {
+      return audience
+    }
+
+    return resolveExternalIdentity(payload, options)
+  }
+}
+
+/**
+ * Validate opaque access tokens with an RFC 7662 introspection endpoint.
+ * Responses are cached per token, so each token is introspected about once
+ * a minute at most.
+ */
+export function createIntrospectionTokenValidator(options: IntrospectionTokenValidatorOptions): TokenValidator {
+  const cache = new Map<string, { result: TokenValidationResult; expiresAt: number }>()
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_INTROSPECTION_CACHE_TTL_MS
+
+  return async (token) => {
+    const key = await sha256Hex(token)
+    const cached = cache.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result
+    }
+
+    let response: Response
+    try {
+      response = await fetch(options.introspectionEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${btoa(`${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`)}`,
+        },
+        body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+      })
+    } catch (err) {
+      console.error(err)
+      return { valid: false, reason: 'unavailable', error: 'Unable to reach the authorization server' }
+    }
+
+    if (!response.ok) {
+      console.error(`Token introspection failed with ${response.status}`)
+      return { valid: false, reason: 'unavailable', error: 'Unable to reach the authorization server' }
+    }
+
+    let introspection: JWTPayload & { active?: boolean }
+    try {
+      introspection = await response.json()
+    } catch (err) {
+      console.error('Token introspection returned invalid JSON:', err)
+      return { valid: false, reason: 'unavailable', error: 'Unable to reach the authorization server' }
+    }
+    if (!introspection || typeof introspection !== 'object') {
+      console.error('Token introspection returned a non-object response')
+      return { valid: false, reason: 'unavailable', error: 'Unable to reach the authorization server' }
+    }
+
+    const result = await checkIntrospection(introspection, options)
+
+    const now = Date.now()
+    for (const [cachedKey, entry] of cache) {
+      if (entry.expiresAt <= now) {
+        cache.delete(cachedKey)
+      }
+    }
+    const expiresAt = typeof introspection.exp === 'number' ? introspection.exp * 1000 : Infinity
+    cache.set(key, { result, expiresAt: Math.min(now + cacheTtlMs, expiresAt) })
+
+    return result
+  }
+}
+
+function checkIntrospection(
+  introspection: JWTPayload & { active?: boolean },
+  options: IntrospectionTokenValidatorOptions
+): TokenValidationResult | Promise<TokenValidationResult> {
+  if (introspection.active !== true) {
+    return { valid: false, reason: 'invalid', error: 'Token is not active' }
+  }
+  if (!introspection.sub) {
+    return { valid: false, reason: 'invalid', error: 'Token has no subject' }
+  }
+  if (introspection.iss && introspection.iss !== options.issuer) {
+    return { valid: false, reason: 'invalid', error: 'Unexpected token issuer' }
+  }
+  if (typeof introspection.exp === 'number' && introspection.exp * 1000 <= Date.now()) {
+    return { valid: false, reason: 'expired', error: 'Token expired' }
+  }
+
+  const audience = checkAudience({ sub: introspection.sub, aud: introspection.aud }, options.audiences)
+  if (!audience.valid) {
+    return audience
+  }
+
+  return resolveExternalIdentity({ ...introspection, iss: options.issuer }, options)
+}
+
+/**
+ * Turn verified claims from another issuer into the caller seen by the auth
+ * middleware and tool handlers
+ */
+async function resolveExternalIdentity(
+  payload: JWTPayload,
+  options: ExternalIdentityOptions
+): Promise<TokenValidationResult> {
+  const scopeValue = payload[options.scopeClaim ?? 'scope']
+  const scope = Array.isArray(scopeValue) ? scopeValue.join(' ') : typeof scopeValue === 'string' ? scopeValue : ''
+  const clientId = (payload.client_id ?? payload.azp) as string | undefined
+  const email = typeof payload.email === 'string' ? payload.email : undefined
+  const provider = { provider: payload.iss, external_subject: payload.sub }
+
+  if ((options.identity ?? 'third-party') === 'third-party') {
+    const claims: AccessTokenClaims = { ...payload, sub: payload.sub!, scope, client_id: clientId, email }
+    const user: AuthUser = {
+      id: claims.sub,
+      email,
+      role: typeof payload.role === 'string' ? payload.role : 'authenticated',
+      app_metadata: provider,
+      user_metadata: {},
+    }
+    return { valid: true, user, claims, external: true }
+  }
+
+  let userId: string | undefined
+  try {
+    userId = await findLinkedUser(payload.iss!, payload.sub!, options.provisionUsers ? payload : undefined)
+  } catch (err) {
+    console.error(err)
+    return { valid: false, reason: 'unavailable', error: 'Unable to resolve the linked user' }
+  }
+  if (!userId) {
+    return { valid: false, reason: 'invalid', error: 'No user is linked to this identity' }
+  }
+
+  const claims: AccessTokenClaims = {
+    iss: payload.iss,
+    sub: userId,
+    aud: payload.aud,
+    exp: payload.exp,
+    iat: payload.iat,
+    role: 'authenticated',
+    email,
+    scope,
+    client_id: clientId,
+    app_metadata: provider,
+  }
+  const user: AuthUser = { id: userId, email, role: 'authenticated', app_metadata: provider, user_metadata: {} }
+
+  let supabaseToken: string
+  try {
+    supabaseToken = await signSupabaseToken(claims)
+  } catch (err) {
+    console.error(err)
+    return { valid: false, reason: 'unavailable', error: 'Unable to resolve the linked user' }
+  }
+
+  return { valid: true, user, claims, external: true, supabaseToken }
+}
+
+const linkedUsers = new Map<string, string>()
+
+/**
+ * Postgres error code for a unique constraint violation
+ */
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Supabase user linked to an external identity. With `provision`, a user is
+ * created from the identity's claims and linked when none is yet.
+ */
+async function findLinkedUser(issuer: string, subject: string, provision?: JWTPayload): Promise<string | undefined> {
+  const key = `${issuer}:${subject}`
+  const cached = linkedUsers.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const supabase = createAdminClient()
+  let userId = await lookUpLinkedUser(supabase, issuer, subject)
+  if (!userId && provision) {
+    userId = await provisionLinkedUser(supabase, issuer, subject, provision)
+  }
+
+  if (userId) {
+    linkedUsers.set(key, userId)
+  }
+  return userId
+}
+
+async function lookUpLinkedUser(supabase: SupabaseClient, issuer: string, subject: string): Promise<string | undefined> {
+  const { data, error } = await supabase
+    .from('oauth_external_identities')
+    .select('user_id')
+    .eq('issuer', issuer)
+    .eq('subject', subject)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up linked user: ${error.message}`)
+  }
+  return data?.user_id
+}
+
+/**
+ * Create a user for an external identity and link it. Concurrent first
+ * requests race to link the identity: the loser deletes the user it created
+ * and uses the winner's, so no user is left without an identity.
+ */
+async function provisionLinkedUser(
+  supabase: SupabaseClient,
+  issuer: string,
+  subject: string,
+  claims: JWTPayload
+): Promise<string> {
+  // Only trust the email when the provider says it verified it
+  const email = claims.email_verified === true && typeof claims.email === 'string' ? claims.email : undefined
+  const { data: created, error: createError } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: Boolean(email),
+    app_metadata: { provider: issuer, external_subject: subject },
+  })
+  if (createError) {
+    // A concurrent request may have taken the email while linking the identity
+    const linked = await lookUpLinkedUser(supabase, issuer, subject)
+    if (linked) {
+      return linked
+    }
+    throw new Error(`Failed to create linked user: ${createError.message}`)
+  }
+
+  const { error: linkError } = await supabase
+    .from('oauth_external_identities')
+    .insert({ issuer, subject, user_id: created.user.id })
+  if (!linkError) {
+    return created.user.id
+  }
+
+  const { error: deleteError } = await supabase.auth.admin.deleteUser(created.user.id)
+  if (deleteError) {
+    console.error(`Failed to delete unlinked user ${created.user.id}:`, deleteError)
+  }
+
+  const linked = linkError.code === UNIQUE_VIOLATION ? await lookUpLinkedUser(supabase, issuer, subject) : undefined
+  if (!linked) {
+    throw new Error(`Failed to link user: ${linkError.message}`)
+  }
+  return linked
+}
+
+/**
+ * Validator chosen by TOKEN_VALIDATOR, or undefined for Supabase Auth (the
+ * default). 'oidc' and 'introspection' accept tokens from the issuer in
+ * AUTH_SERVER_URL; introspection also needs INTROSPECTION_ENDPOINT,
+ * INTROSPECTION_CLIENT_ID and INTROSPECTION_CLIENT_SECRET. EXTERNAL_IDENTITY,
+ * PROVISION_EXTERNAL_USERS and EXTERNAL_SCOPE_CLAIM set the identity options.
+ */
+export function getTokenValidatorFromEnv(audiences: string[]): TokenValidator | undefined {
+  const kind = Deno.env.get('TOKEN_VALIDATOR') || 'supabase'
+  if (kind === 'supabase') {
+    return undefined
+  }
+
+  const required = (name: string) => {
+    const value = Deno.env.get(name)
+    if (!value) {
+      throw new Error(`${name} must be set when TOKEN_VALIDATOR is ${kind}`)
+    }
+    return value
+  }
+
+  const identity: ExternalIdentityOptions = {
+    identity: (Deno.env.get('EXTERNAL_IDENTITY') || undefined) as ExternalIdentityMode | undefined,
+    provisionUsers: Deno.env.get('PROVISION_EXTERNAL_USERS') === 'true',
+    scopeClaim: Deno.env.get('EXTERNAL_SCOPE_CLAIM') || undefined,
+  }
+  if (identity.identity === 'linked-user') {
+    // Linked users call Supabase with tokens signed with it
+    getTokenSigningSecret()
+  }
+
+  switch (kind) {
+    case 'oidc':
+      return createOidcTokenValidator({
+        ...identity,
+        issuer: required('AUTH_SERVER_URL'),
+        audiences,
+        audienceClaim: Deno.env.get('OIDC_AUDIENCE_CLAIM') || undefined,
+      })
+    case 'introspection':
+      return createIntrospectionTokenValidator({
+        ...identity,
+        issuer: required('AUTH_SERVER_URL'),
+        introspectionEndpoint: required('INTROSPECTION_ENDPOINT'),
+        clientId: required('INTROSPECTION_CLIENT_ID'),
+        clientSecret: required('INTROSPECTION_CLIENT_SECRET'),
+        audiences,
+      })
+    default:
+      throw new Error(`Unknown TOKEN_VALIDATOR ${kind}; expected supabase, oidc or introspection`)
+  }
+}
@@ -0,0 +1,165 @@
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { AnySchema, SchemaOutput, ShapeOutput, ZodRawShapeCompat } from '@modelcontextprotocol/sdk/server/zod-compat.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuthUser } from './auth.ts'
+import type { AccessTokenClaims } from './jwt.ts'
+import { getToolScopes, missingScopes } from './scopes.ts'
+import { createUserClient } from './supabase.ts'
+import { recordToolDuration, setSpanError, withSpan } from './telemetry.ts'
+
+/**
+ * Everything a tool handler knows about its caller
+ */
+export type ToolContext = RequestHandlerExtra<ServerRequest, ServerNotification> & {
+  /** The verified user the token was issued to */
+  user: AuthUser
+  /** Claims of the caller's access token */
+  claims: AccessTokenClaims
+  /** Scopes granted to the caller's token */
+  scopes: string[]
+  /** Supabase client acting as the caller, so Row Level Security applies */
+  supabase: SupabaseClient
+}
+
+/**
+ * Tool handler that receives a ToolContext in place of the plain request extra
+ */
+export type ContextToolCallback<Args extends undefined | ZodRawShapeCompat | AnySchema = undefined> =
+  Args extends ZodRawShapeCompat
+    ? (args: ShapeOutput<Args>, context: ToolContext) => CallToolResult | Promise<CallToolResult>
+    : Args extends AnySchema
+      ? (args: SchemaOutput<Args>, context: ToolContext) => CallToolResult | Promise<CallToolResult>
+      : (context: ToolContext) => CallToolResult | Promise<CallToolResult>
+
+/**
+ * Tools registered through `registerTool`, per MCP server, so they can be hidden
+ */
+const registeredTools = new WeakMap<McpServer, Map<string, RegisteredTool>>()
+
+/**
+ * Build the context for a tool call from the auth info the middleware handed
+ * to the transport. Returns undefined for unauthenticated calls.
+ */
+export function createToolContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ToolContext | undefined {
+  const authInfo = extra.authInfo
+  const user = authInfo?.extra?.user as AuthUser | undefined
+  const claims = authInfo?.extra?.claims as AccessTokenClaims | undefined
+
+  if (!authInfo || !user || !claims) {
+    return undefined
+  }
+
+  // Tokens from other issuers may be exchanged for one Supabase accepts, see token-validators.ts
+  const supabaseToken = (authInfo.extra?.supabaseToken as string | undefined) ?? authInfo.token
+  return { ...extra, user, claims, scopes: authInfo.scopes, supabase: createUserClient(supabaseToken) }
+}
+
+/**
+ * Register a tool whose handler runs as the authenticated caller.
+ *
+ * The handler receives a ToolContext with the caller's user, claims, scopes
+ * and an RLS-scoped Supabase client. Tokens must also carry `requiredScopes`:
+ * the auth middleware rejects calls without them with an HTTP 403
+ * insufficient_scope challenge before they reach the transport, and the
+ * handler is guarded as well so a tool never runs for an under-scoped token.
+ */
+export function registerTool<
+  OutputArgs extends ZodRawShapeCompat | AnySchema,
+  InputArgs extends undefined | ZodRawShapeCompat | AnySchema = undefined,
+>(
+  server: McpServer,
+  name: string,
+  config: {
+    title?: string
+    description?: string
+    inputSchema?: InputArgs
+    outputSchema?: OutputArgs
+    annotations?: ToolAnnotations
+    _meta?: Record<string, unknown>
+    requiredScopes?: string[]
+  },
+  cb: ContextToolCallback<InputArgs>
+) {
+  const { requiredScopes = [], ...toolConfig } = config
+  getToolScopes(server).set(name, requiredScopes)
+
+  const invoke = (args: unknown[]): CallToolResult | Promise<CallToolResult> => {
+    // The request handler extra is always the last argument
+    const extra = args[args.length - 1] as RequestHandlerExtra<ServerRequest, ServerNotification>
+    const context = createToolContext(extra)
+
+    if (!context) {
+      return errorResult('Authentication required')
+    }
+
+    const missing = missingScopes(context.scopes, requiredScopes)
+    if (missing.length > 0) {
+      return errorResult(`Missing required scope: ${missing.join(' ')}`)
+    }
+
+    return (cb as (...args: unknown[]) => CallToolResult | Promise<CallToolResult>)(...args.slice(0, -1), context)
+  }
+
+  // Each call gets a span and a duration sample, tagged with the caller and outcome
+  const handler = (...args: unknown[]) => {
+    const extra = args[args.length - 1] as RequestHandlerExtra<ServerRequest, ServerNotification>
+    const attributes = {
+      'mcp.tool.name': name,
+      'enduser.id': (extra.authInfo?.extra?.user as AuthUser | undefined)?.id,
+      'oauth.client.id': extra.authInfo?.clientId,
+    }
+
+    return withSpan(`tools/call ${name}`, attributes, async (span) => {
+      const startedAt = performance.now()
+      let outcome = 'error'
+      try {
+        const result = await invoke(args)
+        outcome = result.isError ? 'tool_error' : 'ok'
+        if (result.isError) {
+          setSpanError(span, 'tool_error')
+        }
+        return result
+      } finally {
+        recordToolDuration(performance.now() - startedAt, { 'mcp.tool.name': name, 'mcp.tool.outcome': outcome })
+      }
+    })
+  }
+
+  const tool = server.registerTool<OutputArgs, InputArgs>(name, toolConfig, handler as Parameters<McpServer['registerTool']>[2])
+
+  let tools = registeredTools.get(server)
+  if (!tools) {
+    tools = new Map()
+    registeredTools.set(server, tools)
+  }
+  tools.set(name, tool)
+
+  return tool
+}
+
+/**
+ * Enable exactly the tools a caller's scopes cover, so the others are left
+ * out of tools/list. Calls to them are rejected either way.
+ */
+export function syncToolsToScopes(server: McpServer, scopes: string[]) {
+  for (const [name, requiredScopes] of getToolScopes(server)) {
+    const tool = registeredTools.get(server)?.get(name)
+    const allowed = missingScopes(scopes, requiredScopes).length === 0
+    if (tool && tool.enabled !== allowed) {
+      if (allowed) {
+        tool.enable()
+      } else {
+        tool.disable()
+      }
+    }
+  }
+}
+
+function errorResult(text: string): CallToolResult {
+  return {
+    content: [{ type: 'text', text }],
+    isError: true,
+  }
+}
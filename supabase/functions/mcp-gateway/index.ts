@@ -0,0 +1,39 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+
+import { registerAddTool, registerWhoamiTool } from '../_shared/basic-tools.ts'
+import { NOTES_DATABASE_TOOLS, registerDatabaseTools } from '../_shared/database-tools.ts'
+import { getUrls } from '../_shared/auth.ts'
+import { createMcpGateway, type Toolset } from '../_shared/gateway.ts'
+import { initTelemetry } from '../_shared/telemetry.ts'
+import config from './servers.json' with { type: 'json' }
+
+// Export traces and metrics when OTEL_EXPORTER_OTLP_ENDPOINT is set
+initTelemetry({ serviceName: 'mcp-gateway' })
+
+/**
+ * Tools the servers in servers.json can be built from
+ */
+const toolsets: Record<string, Toolset> = {
+  account: registerWhoamiTool,
+  math: registerAddTool,
+  notes: (server) => {
+    registerDatabaseTools(server, NOTES_DATABASE_TOOLS)
+  },
+}
+
+const { functionsUrl } = getUrls('mcp-gateway')
+
+const app = createMcpGateway({
+  functionName: 'mcp-gateway',
+  config,
+  toolsets,
+  // Redeem codes through the oauth function, which binds tokens to each server
+  tokenEndpoint: `${functionsUrl}/oauth/token`,
+  // Register clients through the oauth function so the registration policy applies
+  registrationEndpoint: `${functionsUrl}/oauth/register`,
+  // Revoke through the oauth function, which knows the tokens it issued
+  revocationEndpoint: `${functionsUrl}/oauth/revoke`,
+})
+
+Deno.serve(app.fetch)
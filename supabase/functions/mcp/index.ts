@@ -2,181 +2,96 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js'
-import { Hono, type Context, type Next } from 'hono'
-import { createClient } from '@supabase/supabase-js'
-import { z } from 'zod'
+import { Hono } from 'hono'
+import { createAuditMiddleware } from '../_shared/audit.ts'
+import { createMcpAuth, getUrls, type McpAuthEnv } from '../_shared/auth.ts'
+import { registerAddTool, registerWhoamiTool } from '../_shared/basic-tools.ts'
+import { NOTES_DATABASE_TOOLS, registerDatabaseTools } from '../_shared/database-tools.ts'
+import { createRateLimitMiddleware } from '../_shared/rate-limit.ts'
+import { getToolScopes } from '../_shared/scopes.ts'
+import { createSessionManager } from '../_shared/sessions.ts'
+import { initTelemetry } from '../_shared/telemetry.ts'
 
-// Configuration
-const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+const { mcpResourceUrl, wellKnownAuthorizationServerUrl, functionsUrl } = getUrls('mcp')
 
-// SUPABASE_URL is the base URL of the Supabase project
-const supabaseUrl = Deno.env.get('SUPABASE_URL')!
-
-// For local development (Docker uses kong:8000 internally), use localhost; for production, use SUPABASE_URL
-// The MCP function is served at /functions/v1/mcp
-const isLocal = supabaseUrl.includes('127.0.0.1') || supabaseUrl.includes('localhost') || supabaseUrl.includes('kong:8000')
-const publicUrl = isLocal
-  ? 'http://localhost:54321/functions/v1/mcp'
-  : `${supabaseUrl}/functions/v1/mcp`
-
-// AUTH_SERVER_URL: The authorization server URL
-// For local, use localhost; for production, use the Supabase Auth URL
-const authServerUrl = isLocal
-  ? 'http://localhost:54321/auth/v1'
-  : `${supabaseUrl}/auth/v1`
-
-/**
- * Helper function to construct URLs for OAuth metadata.
- */
-function getUrls() {
-  return {
-    mcpResourceUrl: publicUrl,
-    wellKnownAuthorizationServerUrl: authServerUrl,
-  }
-}
+// Export traces and metrics when OTEL_EXPORTER_OTLP_ENDPOINT is set
+initTelemetry({ serviceName: 'mcp' })
 
 // Create Hono app (following Supabase tutorial structure)
-const app = new Hono().basePath('/mcp')
-
-// Create your MCP server
-const server = new McpServer({
-  name: 'mcp-server',
-  version: '1.0.0',
-})
-
-// Register a simple addition tool
-server.registerTool(
-  'add',
-  {
-    title: 'Addition Tool',
-    description: 'Add two numbers together',
-    inputSchema: { a: z.number(), b: z.number() },
-  },
-  ({ a, b }) => ({
-    content: [{ type: 'text', text: String(a + b) }],
-  })
-)
-
-/**
- * OAuth Protected Resource Metadata endpoint
- * This advertises the authorization server so MCP clients can discover it
- */
-app.get('/.well-known/oauth-protected-resource', (c) => {
-  const { mcpResourceUrl, wellKnownAuthorizationServerUrl } = getUrls()
-  return c.json({
-    resource: mcpResourceUrl,
-    authorization_servers: [wellKnownAuthorizationServerUrl],
-    scopes_supported: ['openid', 'profile', 'email'],
-  })
-})
-
-/**
- * Build WWW-Authenticate header for 401/403 responses
- * Per RFC 9728 OAuth 2.1 Protected Resource Metadata specification
- */
-function buildWwwAuthenticateHeader(error?: string, errorDescription?: string): string {
-  const { mcpResourceUrl } = getUrls()
-  const resourceMetadataUrl = `${mcpResourceUrl}/.well-known/oauth-protected-resource`
-
-  let header = `Bearer resource_metadata="${resourceMetadataUrl}"`
-
-  if (error) {
-    header += `, error="${error}"`
-  }
-
-  if (errorDescription) {
-    header += `, error_description="${errorDescription}"`
-  }
-
-  return header
-}
+const app = new Hono<McpAuthEnv>().basePath('/mcp')
 
 /**
- * Validate access token using Supabase Auth
+ * Create your MCP server
+ * Each session gets its own instance, since a server serves a single transport
  */
-async function validateToken(token: string): Promise<{ valid: boolean; user?: unknown; error?: string }> {
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: {
-      headers: { Authorization: `Bearer ${token}` },
-    },
+function createServer() {
+  const server = new McpServer({
+    name: 'mcp-server',
+    version: '1.0.0',
   })
 
-  const { data: { user }, error } = await supabase.auth.getUser()
+  // A simple addition tool, and one that runs as the caller
+  registerAddTool(server)
+  registerWhoamiTool(server)
 
-  if (error || !user) {
-    return { valid: false, error: error?.message || 'Invalid token' }
-  }
+  // The notes table and search, queried as the caller under RLS
+  registerDatabaseTools(server, NOTES_DATABASE_TOOLS)
 
-  return { valid: true, user }
+  return server
 }
 
-/**
- * OAuth authentication middleware
- * Validates Bearer tokens and returns WWW-Authenticate headers on failure
- */
-async function authMiddleware(c: Context, next: Next) {
-  const authHeader = c.req.header('Authorization')
-
-  // No authorization header - return 401 with discovery info
-  if (!authHeader) {
-    return c.json(
-      { error: 'unauthorized', error_description: 'Missing authorization header' },
-      401,
-      { 'WWW-Authenticate': buildWwwAuthenticateHeader() }
-    )
-  }
-
-  // Check for Bearer token format
-  const [scheme, token] = authHeader.split(' ')
-  if (scheme?.toLowerCase() !== 'bearer' || !token) {
-    return c.json(
-      { error: 'invalid_request', error_description: 'Invalid authorization header format' },
-      401,
-      { 'WWW-Authenticate': buildWwwAuthenticateHeader('invalid_request', 'Bearer token required') }
-    )
-  }
-
-  // Validate the token
-  const { valid, user, error } = await validateToken(token)
-
-  if (!valid) {
-    return c.json(
-      { error: 'invalid_token', error_description: error || 'Token validation failed' },
-      401,
-      { 'WWW-Authenticate': buildWwwAuthenticateHeader('invalid_token', error) }
-    )
-  }
-
-  // Store user in context for downstream handlers
-  c.set('user', user)
-
-  await next()
-}
+const sessions = createSessionManager({ createServer })
 
 // Health check endpoint (no auth required)
-app.get('/', (c) => {
+// Served under /health because GET on the MCP endpoint opens an SSE stream
+app.get('/health', (c) => {
   return c.json({
     name: 'mcp-server',
     version: '1.0.0',
     endpoints: {
       mcp: '/',
       oauthMetadata: '/.well-known/oauth-protected-resource',
+      authorizationServerMetadata: '/.well-known/oauth-authorization-server',
     },
   })
 })
 
-// Apply auth middleware to POST requests (MCP protocol uses POST)
-app.use('/', authMiddleware)
+// OAuth metadata and auth middleware for the MCP endpoint
+app.route(
+  '/',
+  createMcpAuth({
+    resourceUrl: mcpResourceUrl,
+    authServerUrl: wellKnownAuthorizationServerUrl,
+    mcpPath: '/',
+    // Scopes are the same on every session's server, so read them from one instance
+    toolScopes: getToolScopes(createServer()),
+    serveAuthorizationServerMetadata: true,
+    // Redeem codes through the oauth function, which binds tokens to this resource
+    tokenEndpoint: `${functionsUrl}/oauth/token`,
+    // Register clients through the oauth function so the registration policy applies
+    registrationEndpoint: `${functionsUrl}/oauth/register`,
+    // Revoke through the oauth function, which knows the tokens it issued
+    revocationEndpoint: `${functionsUrl}/oauth/revoke`,
+  })
+)
+
+// Audit log of authenticated calls, including those rejected by rate limits
+app.use(
+  '/',
+  createAuditMiddleware({
+    functionName: 'mcp',
+    // Note bodies are user content, keep them out of the log
+    redact: { insert_notes: ['body'], update_notes: ['body'] },
+  })
+)
+
+// Per-user, per-client and per-tool limits; runs after the auth middleware
+app.use('/', createRateLimitMiddleware())
 
 /**
  * MCP protocol endpoint - requires authentication
- * Handle MCP requests at root path
+ * POST carries JSON-RPC messages, GET opens an SSE stream, DELETE ends the session
  */
-app.post('/', async (c) => {
-  const transport = new WebStandardStreamableHTTPServerTransport()
-  await server.connect(transport)
-  return transport.handleRequest(c.req.raw)
-})
+app.on(['POST', 'GET', 'DELETE'], '/', (c) => sessions.handleRequest(c))
 
 Deno.serve(app.fetch)
@@ -0,0 +1,6 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+
+import { createOAuthServer } from '../_shared/oauth-server.ts'
+
+Deno.serve(createOAuthServer().fetch)
@@ -0,0 +1,104 @@
+import { assertEquals, assertMatch } from '@std/assert'
+import { Hono } from 'hono'
+import {
+  authErrorResponse,
+  buildWwwAuthenticateHeader,
+  getAuthErrorResponse,
+  quoteHeaderValue,
+  type AuthFailure,
+} from '../_shared/auth-errors.ts'
+
+const METADATA_URL = 'http://localhost:54321/functions/v1/mcp/.well-known/oauth-protected-resource'
+const BARE_CHALLENGE = `Bearer resource_metadata="${METADATA_URL}"`
+
+Deno.test('missing_token: 401 without an error code and a bare challenge', () => {
+  assertEquals(getAuthErrorResponse({ kind: 'missing_token' }, METADATA_URL), {
+    status: 401,
+    body: { error_description: 'Missing authorization header' },
+    headers: { 'WWW-Authenticate': BARE_CHALLENGE },
+  })
+})
+
+Deno.test('invalid_request: 400 invalid_request', () => {
+  assertEquals(getAuthErrorResponse({ kind: 'invalid_request' }, METADATA_URL), {
+    status: 400,
+    body: { error: 'invalid_request', error_description: 'Bearer token required' },
+    headers: {
+      'WWW-Authenticate': `${BARE_CHALLENGE}, error="invalid_request", error_description="Bearer token required"`,
+    },
+  })
+})
+
+for (
+  const [kind, description] of [
+    ['malformed_token', 'Malformed token'],
+    ['expired_token', 'Token expired'],
+    ['invalid_token', 'Token validation failed'],
+    ['wrong_audience', 'Token audience does not match this resource'],
+    ['revoked_token', 'Token has been revoked'],
+  ] as const
+) {
+  Deno.test(`${kind}: 401 invalid_token`, () => {
+    assertEquals(getAuthErrorResponse({ kind }, METADATA_URL), {
+      status: 401,
+      body: { error: 'invalid_token', error_description: description },
+      headers: {
+        'WWW-Authenticate': `${BARE_CHALLENGE}, error="invalid_token", error_description="${description}"`,
+      },
+    })
+  })
+}
+
+Deno.test('insufficient_scope: 403 with the scopes to request', () => {
+  const failure: AuthFailure = {
+    kind: 'insufficient_scope',
+    description: 'Missing required scope: notes:write',
+    scopes: ['mcp:tools', 'notes:write'],
+  }
+
+  assertEquals(getAuthErrorResponse(failure, METADATA_URL), {
+    status: 403,
+    body: { error: 'insufficient_scope', error_description: 'Missing required scope: notes:write' },
+    headers: {
+      'WWW-Authenticate':
+        `${BARE_CHALLENGE}, error="insufficient_scope", error_description="Missing required scope: notes:write", scope="mcp:tools notes:write"`,
+    },
+  })
+})
+
+Deno.test('unavailable: 503 without a challenge', () => {
+  assertEquals(getAuthErrorResponse({ kind: 'unavailable' }, METADATA_URL), {
+    status: 503,
+    body: { error: 'temporarily_unavailable', error_description: 'Unable to check token status' },
+    headers: {},
+  })
+})
+
+Deno.test('a failure description replaces the default one', () => {
+  const { body } = getAuthErrorResponse({ kind: 'invalid_token', description: 'Invalid "iss" claim' }, METADATA_URL)
+  assertEquals(body.error_description, 'Invalid "iss" claim')
+})
+
+Deno.test('quoteHeaderValue keeps header values printable ASCII', () => {
+  assertEquals(quoteHeaderValue('plain'), '"plain"')
+  assertEquals(quoteHeaderValue('Invalid "iss" claim'), `"Invalid 'iss' claim"`)
+  assertEquals(quoteHeaderValue('C:\\path'), '"C:/path"')
+  assertEquals(quoteHeaderValue('line\r\nbreak'), '"line break"')
+  assertEquals(quoteHeaderValue('Jeton expiré'), '"Jeton expire"')
+  assertEquals(quoteHeaderValue('トークン'), '"????"')
+})
+
+Deno.test('buildWwwAuthenticateHeader leaves out empty parameters', () => {
+  assertEquals(buildWwwAuthenticateHeader(METADATA_URL), BARE_CHALLENGE)
+  assertEquals(buildWwwAuthenticateHeader(METADATA_URL, 'invalid_token', undefined, []), `${BARE_CHALLENGE}, error="invalid_token"`)
+})
+
+Deno.test('authErrorResponse answers with the status, body and challenge', async () => {
+  const app = new Hono()
+  app.get('/mcp', (c) => authErrorResponse(c, METADATA_URL, { kind: 'expired_token' }))
+
+  const response = await app.request('/mcp')
+  assertEquals(response.status, 401)
+  assertMatch(response.headers.get('WWW-Authenticate')!, /^Bearer resource_metadata=".+", error="invalid_token"/)
+  assertEquals(await response.json(), { error: 'invalid_token', error_description: 'Token expired' })
+})
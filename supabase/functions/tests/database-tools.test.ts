@@ -0,0 +1,252 @@
+import { assert, assertEquals, assertMatch, assertThrows } from '@std/assert'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import { registerDatabaseTools, type DatabaseToolsConfig } from '../_shared/database-tools.ts'
+import { startStubServer } from './helpers.ts'
+
+const NOTE_ID = '8d7f3c2e-5b1a-4c9d-9e8f-7a6b5c4d3e2f'
+const NOTE = { id: NOTE_ID, user_id: 'user-1', title: 'Groceries', body: null, tags: ['home'] }
+
+const config: DatabaseToolsConfig = {
+  tables: [
+    {
+      name: 'notes',
+      description: "the user's notes",
+      primaryKey: 'id',
+      columns: {
+        id: { type: 'uuid', hasDefault: true },
+        user_id: { type: 'uuid', readOnly: true },
+        title: 'text',
+        body: { type: 'text', nullable: true },
+        tags: { type: 'text[]', hasDefault: true },
+      },
+    },
+  ],
+  rpc: [{ name: 'search_notes', args: { query: 'text' }, readOnly: true }],
+  readScopes: ['notes:read'],
+  writeScopes: ['notes:write'],
+}
+
+interface PostgrestRequest {
+  method: string
+  path: string
+  params: URLSearchParams
+  authorization: string | null
+  body: unknown
+}
+
+/**
+ * PostgREST stub answering every request with `rows`: as an array, or as the
+ * row itself when the client asks for a single object
+ */
+function startPostgrest(rows: unknown[] = [NOTE]) {
+  const received: PostgrestRequest[] = []
+  const server = startStubServer(async (request) => {
+    const url = new URL(request.url)
+    const text = await request.text()
+    received.push({
+      method: request.method,
+      path: url.pathname,
+      params: url.searchParams,
+      authorization: request.headers.get('Authorization'),
+      body: text ? JSON.parse(text) : undefined,
+    })
+
+    if (request.headers.get('Accept')?.includes('vnd.pgrst.object')) {
+      return rows.length === 1
+        ? Response.json(rows[0])
+        : Response.json({ code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' }, { status: 406 })
+    }
+    return Response.json(rows)
+  })
+
+  Deno.env.set('SUPABASE_URL', server.url)
+  Deno.env.set('SUPABASE_ANON_KEY', 'anon-key')
+  return { server, received }
+}
+
+/**
+ * Connect a client to a server with the database tools, authenticated with
+ * `scopes` as the auth middleware would be
+ */
+async function connect(scopes: string[]) {
+  const server = new McpServer({ name: 'database-tools-test', version: '1.0.0' })
+  registerDatabaseTools(server, config)
+
+  const authInfo: AuthInfo = {
+    token: 'caller-token',
+    clientId: 'client-1',
+    scopes,
+    extra: {
+      user: { id: 'user-1', app_metadata: {}, user_metadata: {} },
+      claims: { iss: 'https://issuer.example/', sub: 'user-1', client_id: 'client-1' },
+    },
+  }
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const send = clientTransport.send.bind(clientTransport)
+  clientTransport.send = (message, options) => send(message, { ...options, authInfo })
+
+  const client = new Client({ name: 'test', version: '1.0.0' })
+  await server.connect(serverTransport)
+  await client.connect(clientTransport)
+  return client
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>) {
+  return await client.callTool({ name, arguments: args }) as CallToolResult
+}
+
+function text(result: CallToolResult) {
+  return result.content[0].type === 'text' ? result.content[0].text : ''
+}
+
+Deno.test('registers table and function tools with schemas derived from the columns', async () => {
+  const client = await connect([])
+  try {
+    const { tools } = await client.listTools()
+    assertEquals(tools.map((tool) => tool.name).sort(), [
+      'get_notes',
+      'insert_notes',
+      'list_notes',
+      'rpc_search_notes',
+      'update_notes',
+    ])
+
+    // Read-only columns are never written; nullable and defaulted ones are optional
+    const insert = tools.find((tool) => tool.name === 'insert_notes')!
+    assertEquals(Object.keys(insert.inputSchema.properties ?? {}).sort(), ['body', 'id', 'tags', 'title'])
+    assertEquals(insert.inputSchema.required, ['title'])
+
+    const list = tools.find((tool) => tool.name === 'list_notes')!
+    assertEquals(list.annotations?.readOnlyHint, true)
+  } finally {
+    await client.close()
+  }
+})
+
+Deno.test('rejects a primary key that is not a configured column', () => {
+  const server = new McpServer({ name: 'database-tools-test', version: '1.0.0' })
+  assertThrows(
+    () => registerDatabaseTools(server, { tables: [{ name: 'notes', primaryKey: 'slug', columns: { id: 'uuid' } }] }),
+    Error,
+    'Primary key "slug" is not a configured column of notes'
+  )
+})
+
+Deno.test('list_ filters, orders and pages the query as the caller', async () => {
+  const { server, received } = startPostgrest()
+  const client = await connect(['notes:read'])
+  try {
+    const result = await callTool(client, 'list_notes', {
+      filters: { title: 'Groceries' },
+      order_by: 'title',
+      ascending: false,
+      limit: 5,
+      offset: 10,
+    })
+    assertEquals(JSON.parse(text(result)), [NOTE])
+
+    const [request] = received
+    assertEquals(request.path, '/rest/v1/notes')
+    assertEquals(request.authorization, 'Bearer caller-token')
+    assertEquals(request.params.get('title'), 'eq.Groceries')
+    assertEquals(request.params.get('order'), 'title.desc')
+    assertEquals(request.params.get('offset'), '10')
+    assertEquals(request.params.get('limit'), '5')
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('get_ reports a missing row as a tool error', async () => {
+  const { server } = startPostgrest([])
+  const client = await connect(['notes:read'])
+  try {
+    const result = await callTool(client, 'get_notes', { id: NOTE_ID })
+    assert(result.isError)
+    assertEquals(text(result), `No notes row with id ${NOTE_ID}`)
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('insert_ needs the write scopes', async () => {
+  const { server, received } = startPostgrest()
+  const client = await connect(['notes:read'])
+  try {
+    const result = await callTool(client, 'insert_notes', { title: 'Groceries' })
+    assert(result.isError)
+    assertEquals(text(result), 'Missing required scope: notes:write')
+    assertEquals(received.length, 0)
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('update_ changes only the given columns of the keyed row', async () => {
+  const { server, received } = startPostgrest()
+  const client = await connect(['notes:write'])
+  try {
+    const result = await callTool(client, 'update_notes', { id: NOTE_ID, values: { title: 'Errands' } })
+    assert(!result.isError)
+
+    const [request] = received
+    assertEquals(request.method, 'PATCH')
+    assertEquals(request.params.get('id'), `eq.${NOTE_ID}`)
+    assertEquals(request.body, { title: 'Errands' })
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('arguments that do not match the column types are rejected', async () => {
+  const { server, received } = startPostgrest()
+  const client = await connect(['notes:read'])
+  try {
+    const result = await callTool(client, 'get_notes', { id: 'not-a-uuid' })
+    assert(result.isError)
+    assertMatch(text(result), /Invalid/)
+    assertEquals(received.length, 0)
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('rpc_ calls the function with its arguments', async () => {
+  const { server, received } = startPostgrest()
+  const client = await connect(['notes:read'])
+  try {
+    const result = await callTool(client, 'rpc_search_notes', { query: 'groc' })
+    assertEquals(JSON.parse(text(result)), [NOTE])
+
+    const [request] = received
+    assertEquals(request.method, 'POST')
+    assertEquals(request.path, '/rest/v1/rpc/search_notes')
+    assertEquals(request.body, { query: 'groc' })
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
+
+Deno.test('rows can be read as resources with the read scopes', async () => {
+  const { server } = startPostgrest()
+  const client = await connect(['notes:read'])
+  try {
+    const { contents } = await client.readResource({ uri: `db://public/notes/${NOTE_ID}` })
+    assertEquals(contents[0].mimeType, 'application/json')
+    assert('text' in contents[0])
+    assertEquals(JSON.parse(contents[0].text), NOTE)
+  } finally {
+    await client.close()
+    await server.close()
+  }
+})
@@ -0,0 +1,70 @@
+import { exportJWK, generateKeyPair, SignJWT, type CryptoKey, type JWK, type JWTPayload } from 'jose'
+
+/**
+ * A local HTTP server for stubbing JWKS, discovery and introspection endpoints
+ */
+export interface StubServer {
+  url: string
+  /** Requests received so far, by path */
+  requests: string[]
+  close: () => Promise<void>
+}
+
+export function startStubServer(handler: (request: Request) => Response | Promise<Response>): StubServer {
+  const requests: string[] = []
+  const server = Deno.serve({ port: 0, hostname: '127.0.0.1', onListen: () => {} }, (request) => {
+    requests.push(new URL(request.url).pathname)
+    return handler(request)
+  })
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    close: () => server.shutdown(),
+  }
+}
+
+export interface SigningKey {
+  kid: string
+  privateKey: CryptoKey
+  jwk: JWK
+}
+
+export async function createSigningKey(kid: string): Promise<SigningKey> {
+  const { privateKey, publicKey } = await generateKeyPair('ES256')
+  return { kid, privateKey, jwk: { ...(await exportJWK(publicKey)), kid, alg: 'ES256', use: 'sig' } }
+}
+
+/**
+ * Sign an access token. `expiresIn` is in seconds and may be negative.
+ */
+export function signToken(key: SigningKey, claims: JWTPayload, expiresIn = 3600): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'ES256', kid: key.kid })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .sign(key.privateKey)
+}
+
+export function signSymmetricToken(secret: string, claims: JWTPayload, expiresIn = 3600): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .sign(new TextEncoder().encode(secret))
+}
+
+/**
+ * Run `fn` with Date.now() moved forward, e.g. past a cache's cooldown
+ */
+export async function withClockAdvanced<T>(ms: number, fn: () => Promise<T>): Promise<T> {
+  const now = Date.now
+  Date.now = () => now() + ms
+  try {
+    return await fn()
+  } finally {
+    Date.now = now
+  }
+}
@@ -0,0 +1,157 @@
+import { assert, assertEquals } from '@std/assert'
+import { createJwtVerifier, type JwtVerifierOptions } from '../_shared/jwt.ts'
+import { createSigningKey, signSymmetricToken, signToken, startStubServer, withClockAdvanced, type SigningKey } from './helpers.ts'
+
+const ISSUER = 'http://127.0.0.1:54321/auth/v1'
+const RESOURCE = 'http://localhost:54321/functions/v1/mcp'
+
+async function setup(overrides: Partial<JwtVerifierOptions> = {}) {
+  const keys: SigningKey[] = [await createSigningKey('key-1')]
+  const jwks = startStubServer(() => Response.json({ keys: keys.map((key) => key.jwk) }))
+  const verify = createJwtVerifier({
+    jwksUrl: `${jwks.url}/auth/v1/.well-known/jwks.json`,
+    issuers: [ISSUER],
+    audiences: [RESOURCE],
+    verifySymmetric: () => Promise.resolve({ valid: false, error: 'Unexpected symmetric token' }),
+    ...overrides,
+  })
+  return { keys, jwks, verify }
+}
+
+const claims = { iss: ISSUER, sub: 'user-1', aud: RESOURCE, scope: 'mcp:tools' }
+
+Deno.test('accepts a token signed with a published key', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(keys[0], claims))
+    assert(result.valid)
+    assertEquals(result.claims?.sub, 'user-1')
+    assertEquals(result.claims?.scope, 'mcp:tools')
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('rejects an expired token', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(keys[0], claims, -60))
+    assertEquals(result, { valid: false, reason: 'expired', error: 'Token expired' })
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('rejects a token from another issuer', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(keys[0], { ...claims, iss: 'https://evil.example/auth/v1' }))
+    assertEquals(result, { valid: false, reason: 'invalid', error: 'Invalid "iss" claim' })
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('rejects a token issued for another resource', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(keys[0], { ...claims, aud: 'authenticated' }))
+    assertEquals(result.valid, false)
+    assertEquals(result.reason, 'wrong_audience')
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('accepts a token bound through the resource claim', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(keys[0], { ...claims, aud: 'authenticated', resource: `${RESOURCE}/` }))
+    assert(result.valid)
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('refetches the key set when a token names an unknown key', async () => {
+  const { keys, jwks, verify } = await setup()
+  try {
+    assert((await verify(await signToken(keys[0], claims))).valid)
+    assertEquals(jwks.requests.length, 1)
+
+    // Rotate: the new key is only published after the first fetch
+    keys.push(await createSigningKey('key-2'))
+    const rotated = await signToken(keys[1], claims)
+
+    // Past the cooldown between fetches, the unknown kid triggers a refetch
+    const result = await withClockAdvanced(60_000, () => verify(rotated))
+    assert(result.valid)
+    assertEquals(jwks.requests.length, 2)
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('rejects a token whose key is not published', async () => {
+  const { jwks, verify } = await setup()
+  try {
+    const result = await verify(await signToken(await createSigningKey('unknown'), claims))
+    assertEquals(result, { valid: false, reason: 'invalid', error: 'Unknown signing key' })
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('reports an unreachable key set as unavailable', async () => {
+  const { keys, jwks, verify } = await setup()
+  await jwks.close()
+
+  const result = await verify(await signToken(keys[0], claims))
+  assertEquals(result.reason, 'unavailable')
+})
+
+Deno.test('rejects a malformed token', async () => {
+  const { jwks, verify } = await setup()
+  try {
+    assertEquals((await verify('not-a-jwt')).reason, 'malformed')
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('hands symmetric tokens to verifySymmetric, then checks issuer and audience', async () => {
+  const checked: string[] = []
+  const { jwks, verify } = await setup({
+    verifySymmetric: (token) => {
+      checked.push(token)
+      return Promise.resolve({ valid: true })
+    },
+  })
+  try {
+    const token = await signSymmetricToken('legacy-secret', claims)
+    assert((await verify(token)).valid)
+    assertEquals(checked, [token])
+    // The key set is never consulted for HS256
+    assertEquals(jwks.requests.length, 0)
+
+    const otherIssuer = await signSymmetricToken('legacy-secret', { ...claims, iss: 'https://evil.example/auth/v1' })
+    assertEquals((await verify(otherIssuer)).error, 'Unexpected token issuer')
+
+    const otherAudience = await signSymmetricToken('legacy-secret', { ...claims, aud: 'authenticated' })
+    assertEquals((await verify(otherAudience)).reason, 'wrong_audience')
+  } finally {
+    await jwks.close()
+  }
+})
+
+Deno.test('reports symmetric tokens rejected by Auth as expired or invalid', async () => {
+  const { jwks, verify } = await setup({
+    verifySymmetric: () => Promise.resolve({ valid: false, error: 'invalid JWT: token is expired' }),
+  })
+  try {
+    const result = await verify(await signSymmetricToken('legacy-secret', claims))
+    assertEquals(result.reason, 'expired')
+  } finally {
+    await jwks.close()
+  }
+})
@@ -0,0 +1,470 @@
+import { assert, assertEquals, assertThrows } from '@std/assert'
+import { Hono } from 'hono'
+import { createMcpAuth, type McpAuthEnv } from '../_shared/auth.ts'
+import { registerAddTool } from '../_shared/basic-tools.ts'
+import { createMcpGateway } from '../_shared/gateway.ts'
+import { createOAuthServer } from '../_shared/oauth-server.ts'
+import { signSymmetricToken, startStubServer } from './helpers.ts'
+
+const JWT_SECRET = 'super-secret-jwt-token-with-at-least-32-characters'
+const FUNCTIONS_URL = 'http://localhost:54321/functions/v1'
+const AUTH_SERVER_URL = 'http://localhost:54321/auth/v1'
+const RESOURCE = `${FUNCTIONS_URL}/mcp`
+const USER_ID = '2f0b5c1e-8a4d-4e6b-9c3a-1d2e3f4a5b6c'
+const CLIENT_ID = 'client-1'
+const CONFIDENTIAL_CLIENT_ID = 'client-2'
+const REDIRECT_URI = 'http://127.0.0.1:33418/callback'
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+
+/**
+ * Supabase Auth and PostgREST as the oauth function and the auth middleware
+ * see them, after the user approved the request on the consent page
+ */
+function startSupabase(options: { sessionUserId?: string; grantedScopes?: string[] | null } = {}) {
+  const tokenRequests: URLSearchParams[] = []
+  const inserted: Record<string, unknown[]> = {}
+  const server = startStubServer(async (request) => {
+    const { pathname } = new URL(request.url)
+
+    if (pathname === '/auth/v1/.well-known/oauth-authorization-server') {
+      return Response.json({
+        issuer: `${server.url}/auth/v1`,
+        authorization_endpoint: `${server.url}/auth/v1/oauth/authorize`,
+        token_endpoint: `${server.url}/auth/v1/oauth/token`,
+        scopes_supported: ['openid', 'email'],
+      })
+    }
+    if (pathname === '/auth/v1/oauth/token') {
+      const form = new URLSearchParams(await request.text())
+      tokenRequests.push(form)
+      if (form.get('code') !== 'supabase-code') {
+        return Response.json({ error: 'invalid_grant', error_description: 'Invalid code' }, { status: 400 })
+      }
+      // Supabase Auth's own tokens are for Supabase, not for the MCP resource
+      return Response.json({
+        access_token: await signSymmetricToken(JWT_SECRET, {
+          iss: 'http://127.0.0.1:54321/auth/v1',
+          sub: USER_ID,
+          aud: 'authenticated',
+          role: 'authenticated',
+          session_id: 'session-1',
+          client_id: CLIENT_ID,
+        }),
+        token_type: 'bearer',
+        refresh_token: 'supabase-refresh-token',
+        scope: 'mcp:tools',
+      })
+    }
+    if (pathname === `/auth/v1/admin/users/${USER_ID}`) {
+      return Response.json({ id: USER_ID, email: 'user@example.com', app_metadata: {}, user_metadata: {} })
+    }
+    if (pathname === `/auth/v1/admin/oauth/clients/${CLIENT_ID}`) {
+      return Response.json({ client_id: CLIENT_ID, client_name: 'Client', client_type: 'public', redirect_uris: [REDIRECT_URI] })
+    }
+    if (pathname === `/auth/v1/admin/oauth/clients/${CONFIDENTIAL_CLIENT_ID}`) {
+      return Response.json({
+        client_id: CONFIDENTIAL_CLIENT_ID,
+        client_name: 'Confidential client',
+        client_type: 'confidential',
+        redirect_uris: [REDIRECT_URI],
+      })
+    }
+    if (pathname === '/auth/v1/user') {
+      return Response.json({ id: options.sessionUserId ?? USER_ID, email: 'user@example.com', app_metadata: {}, user_metadata: {} })
+    }
+    if (pathname === '/rest/v1/oauth_scope_grants') {
+      const scopes = options.grantedScopes === undefined ? ['mcp:tools'] : options.grantedScopes
+      return Response.json(scopes ? [{ scopes }] : [])
+    }
+    if (pathname === '/rest/v1/rpc/is_oauth_token_revoked') {
+      return Response.json(false)
+    }
+    if (pathname === '/rest/v1/rpc/consume_rate_limits') {
+      return Response.json({ allowed: true, retry_after_seconds: 0, denied: null })
+    }
+    if (request.method === 'POST' && !pathname.startsWith('/rest/v1/rpc/')) {
+      inserted[pathname] = [...(inserted[pathname] ?? []), await request.json()]
+      return new Response(null, { status: 201 })
+    }
+    // No codes issued by the oauth function itself, nothing else recorded
+    return Response.json([])
+  })
+
+  Deno.env.set('SUPABASE_URL', server.url)
+  Deno.env.set('SUPABASE_ANON_KEY', 'anon-key')
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+  Deno.env.set('MCP_TOKEN_SIGNING_SECRET', JWT_SECRET)
+  return { server, tokenRequests, inserted }
+}
+
+/**
+ * An MCP function's auth stack, answering authenticated requests with the
+ * caller it identified
+ */
+function createMcpApp(resourceUrl = RESOURCE) {
+  const app = new Hono<McpAuthEnv>().basePath(resourceUrl.slice(FUNCTIONS_URL.length))
+  app.route(
+    '/',
+    createMcpAuth({
+      resourceUrl,
+      authServerUrl: AUTH_SERVER_URL,
+      mcpPath: '/',
+      requiredScopes: ['mcp:tools'],
+      serveAuthorizationServerMetadata: true,
+      tokenEndpoint: `${FUNCTIONS_URL}/oauth/token`,
+      diagnostics: false,
+      corsOrigins: [],
+    })
+  )
+  app.post('/', (c) => c.json({ user: c.get('user').id, scopes: c.get('authInfo').scopes }))
+  return app
+}
+
+function callMcp(app: Hono<McpAuthEnv>, accessToken: string, resourceUrl = RESOURCE) {
+  return app.request(`http://localhost:54321${resourceUrl.slice(FUNCTIONS_URL.length)}`, {
+    method: 'POST',
+    headers: { Host: 'localhost:54321', 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+  })
+}
+
+/**
+ * Redeem the code Supabase Auth issued for the approved request at the oauth
+ * function's token endpoint
+ */
+async function redeemCode(resource?: string) {
+  const response = await createOAuthServer().request('/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: 'supabase-code',
+      redirect_uri: REDIRECT_URI,
+      code_verifier: CODE_VERIFIER,
+      client_id: CLIENT_ID,
+      ...(resource ? { resource } : {}),
+    }),
+  })
+  assertEquals(response.status, 200)
+  return (await response.json()).access_token as string
+}
+
+Deno.test('a token from the advertised token endpoint is accepted by the resource', async () => {
+  const { server, tokenRequests } = startSupabase()
+  try {
+    const mcp = createMcpApp()
+
+    const resourceMetadata = await (await mcp.request('http://localhost:54321/mcp/.well-known/oauth-protected-resource')).json()
+    assertEquals(resourceMetadata.authorization_servers, [RESOURCE])
+
+    const metadata = await (await mcp.request('http://localhost:54321/mcp/.well-known/oauth-authorization-server')).json()
+    assertEquals(metadata.authorization_endpoint, `${AUTH_SERVER_URL}/oauth/authorize`)
+    assertEquals(metadata.token_endpoint, `${FUNCTIONS_URL}/oauth/token`)
+    assertEquals(metadata.token_endpoint_auth_methods_supported, ['none', 'client_secret_basic', 'client_secret_post'])
+
+    // The user approved the request on the consent page and Supabase Auth
+    // redirected back with a code, which the client redeems where advertised
+    const response = await createOAuthServer().request(metadata.token_endpoint.slice(FUNCTIONS_URL.length), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: 'supabase-code',
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+        client_id: CLIENT_ID,
+        resource: RESOURCE,
+      }),
+    })
+    assertEquals(response.status, 200)
+    const tokens = await response.json()
+    assertEquals(tokens.token_type, 'Bearer')
+    assertEquals(tokens.scope, 'mcp:tools')
+    assert(tokens.refresh_token)
+
+    // Supabase Auth checked the code against the client and its PKCE verifier
+    assertEquals(tokenRequests[0].get('code_verifier'), CODE_VERIFIER)
+    assertEquals(tokenRequests[0].get('redirect_uri'), REDIRECT_URI)
+
+    const accepted = await callMcp(mcp, tokens.access_token)
+    assertEquals(accepted.status, 200)
+    assertEquals(await accepted.json(), { user: USER_ID, scopes: ['mcp:tools'] })
+  } finally {
+    await server.close()
+  }
+})
+
+/**
+ * Redeem the code Supabase Auth issued with the given client authentication
+ */
+function requestToken(headers: Record<string, string>, params: Record<string, string>) {
+  return createOAuthServer().request('/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: 'supabase-code',
+      redirect_uri: REDIRECT_URI,
+      code_verifier: CODE_VERIFIER,
+      ...params,
+    }),
+  })
+}
+
+Deno.test('confidential clients authenticate with HTTP Basic, checked by Supabase Auth', async () => {
+  const { server, tokenRequests } = startSupabase()
+  try {
+    const response = await requestToken({ Authorization: `Basic ${btoa(`${CONFIDENTIAL_CLIENT_ID}:s%3Acret`)}` }, {})
+    assertEquals(response.status, 200)
+
+    assertEquals(tokenRequests[0].get('client_id'), CONFIDENTIAL_CLIENT_ID)
+    assertEquals(tokenRequests[0].get('client_secret'), 's:cret')
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('clients that do not authenticate as registered are refused at the token endpoint', async () => {
+  const { server, tokenRequests } = startSupabase()
+  try {
+    const withoutSecret = await requestToken({}, { client_id: CONFIDENTIAL_CLIENT_ID })
+    assertEquals(withoutSecret.status, 401)
+    assertEquals((await withoutSecret.json()).error, 'invalid_client')
+
+    const publicWithSecret = await requestToken({}, { client_id: CLIENT_ID, client_secret: 'secret' })
+    assertEquals(publicWithSecret.status, 401)
+    assertEquals((await publicWithSecret.json()).error, 'invalid_client')
+
+    const mismatched = await requestToken(
+      { Authorization: `Basic ${btoa(`${CONFIDENTIAL_CLIENT_ID}:secret`)}` },
+      { client_id: CLIENT_ID }
+    )
+    assertEquals(mismatched.status, 401)
+    assertEquals(mismatched.headers.get('WWW-Authenticate'), 'Basic realm="oauth"')
+    assertEquals((await mismatched.json()).error, 'invalid_client')
+
+    const twoMethods = await requestToken(
+      { Authorization: `Basic ${btoa(`${CONFIDENTIAL_CLIENT_ID}:secret`)}` },
+      { client_secret: 'secret' }
+    )
+    assertEquals(twoMethods.status, 400)
+    assertEquals((await twoMethods.json()).error, 'invalid_request')
+
+    assertEquals(tokenRequests.length, 0)
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('a token from Supabase Auth itself is refused by the resource', async () => {
+  const { server } = startSupabase()
+  try {
+    const supabaseToken = await signSymmetricToken(JWT_SECRET, {
+      iss: 'http://127.0.0.1:54321/auth/v1',
+      sub: USER_ID,
+      aud: 'authenticated',
+      role: 'authenticated',
+      client_id: CLIENT_ID,
+      scope: 'mcp:tools',
+    })
+
+    const refused = await callMcp(createMcpApp(), supabaseToken)
+    assertEquals(refused.status, 401)
+    await refused.body?.cancel()
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('codes Supabase Auth rejects are refused at the token endpoint', async () => {
+  const { server } = startSupabase()
+  try {
+    const response = await createOAuthServer().request('/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: 'forged-code',
+        redirect_uri: REDIRECT_URI,
+        code_verifier: CODE_VERIFIER,
+        client_id: CLIENT_ID,
+      }),
+    })
+    assertEquals(response.status, 400)
+    assertEquals((await response.json()).error, 'invalid_grant')
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('a token is only accepted by the resource it was issued for', async () => {
+  const { server } = startSupabase()
+  const other = `${FUNCTIONS_URL}/simple-mcp-server`
+  try {
+    const accessToken = await redeemCode(other)
+
+    const accepted = await callMcp(createMcpApp(other), accessToken, other)
+    assertEquals(accepted.status, 200)
+    await accepted.body?.cancel()
+
+    const refused = await callMcp(createMcpApp(), accessToken)
+    assertEquals(refused.status, 401)
+    await refused.body?.cancel()
+
+    // Without a resource parameter, tokens are issued for the mcp function
+    const defaulted = await callMcp(createMcpApp(), await redeemCode())
+    assertEquals(defaulted.status, 200)
+    await defaulted.body?.cancel()
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('ACCEPTED_AUDIENCES lets a resource accept tokens issued for others', async () => {
+  const { server } = startSupabase()
+  const other = `${FUNCTIONS_URL}/simple-mcp-server`
+  Deno.env.set('ACCEPTED_AUDIENCES', `${other}, https://api.example.com`)
+  try {
+    const accepted = await callMcp(createMcpApp(), await redeemCode(other))
+    assertEquals(accepted.status, 200)
+    await accepted.body?.cancel()
+  } finally {
+    Deno.env.delete('ACCEPTED_AUDIENCES')
+    await server.close()
+  }
+})
+
+/**
+ * Ask for a code as the consent app's callback page does, signed in as `userId`
+ */
+async function requestCode(userId: string, scope: string) {
+  const sessionToken = await signSymmetricToken(JWT_SECRET, { sub: userId, aud: 'authenticated', session_id: 'session-1' })
+  return createOAuthServer().request('/oauth/codes', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${sessionToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      code_challenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+      code_challenge_method: 'S256',
+      scope,
+      refresh_token: 'supabase-refresh-token',
+    }),
+  })
+}
+
+Deno.test('codes are only issued for clients the user approved on the consent page', async () => {
+  // Granted scopes are cached per user and client, so each test signs in as its own user
+  const userId = crypto.randomUUID()
+  const { server, inserted } = startSupabase({ sessionUserId: userId, grantedScopes: null })
+  try {
+    const response = await requestCode(userId, 'mcp:tools')
+    assertEquals(response.status, 403)
+    assertEquals((await response.json()).error, 'access_denied')
+    assertEquals(inserted['/rest/v1/oauth_authorization_codes'], undefined)
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('codes carry only the requested scopes the user granted', async () => {
+  const userId = crypto.randomUUID()
+  const { server, inserted } = startSupabase({ sessionUserId: userId, grantedScopes: ['openid', 'mcp:tools'] })
+  try {
+    const response = await requestCode(userId, 'mcp:tools notes:write')
+    assertEquals(response.status, 201)
+    await response.body?.cancel()
+
+    const [code] = inserted['/rest/v1/oauth_authorization_codes'] as { scope: string }[]
+    assertEquals(code.scope, 'mcp:tools')
+  } finally {
+    await server.close()
+  }
+})
+
+/**
+ * A gateway serving `notes` and `math`, each with the `add` tool
+ */
+function createGateway(servers: { name: string; path: string; authorizationServers?: string[] }[]) {
+  return createMcpGateway({
+    functionName: 'mcp-gateway',
+    config: { servers: servers.map((server) => ({ ...server, toolsets: ['math'] })) },
+    toolsets: { math: registerAddTool },
+    tokenEndpoint: `${FUNCTIONS_URL}/oauth/token`,
+  })
+}
+
+/**
+ * Start a session with a gateway server
+ */
+function initializeGatewayServer(app: Hono<McpAuthEnv>, path: string, accessToken: string) {
+  return app.request(`http://localhost:54321/mcp-gateway${path}`, {
+    method: 'POST',
+    headers: {
+      Host: 'localhost:54321',
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+    }),
+  })
+}
+
+Deno.test('a gateway server only accepts tokens issued for it', async () => {
+  const { server } = startSupabase()
+  try {
+    const gateway = createGateway([{ name: 'notes', path: '/notes' }, { name: 'math', path: '/math' }])
+
+    const resourceMetadata = await (
+      await gateway.request('http://localhost:54321/mcp-gateway/.well-known/oauth-protected-resource/math')
+    ).json()
+    assertEquals(resourceMetadata.authorization_servers, [`${FUNCTIONS_URL}/mcp-gateway`])
+    const metadata = await (await gateway.request('http://localhost:54321/mcp-gateway/.well-known/oauth-authorization-server')).json()
+    assertEquals(metadata.token_endpoint, `${FUNCTIONS_URL}/oauth/token`)
+
+    const accessToken = await redeemCode(`${FUNCTIONS_URL}/mcp-gateway/notes`)
+
+    const accepted = await initializeGatewayServer(gateway, '/notes', accessToken)
+    assertEquals(accepted.status, 200)
+    await accepted.body?.cancel()
+
+    const refused = await initializeGatewayServer(gateway, '/math', accessToken)
+    assertEquals(refused.status, 401)
+    await refused.body?.cancel()
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('a gateway server trusting another authorization server refuses the project\'s tokens', async () => {
+  const { server } = startSupabase()
+  try {
+    const gateway = createGateway([
+      { name: 'math', path: '/math', authorizationServers: ['https://tenant.auth0.com/'] },
+    ])
+
+    const accessToken = await redeemCode(`${FUNCTIONS_URL}/mcp-gateway/math`)
+    const refused = await initializeGatewayServer(gateway, '/math', accessToken)
+    assertEquals(refused.status, 401)
+    await refused.body?.cancel()
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('the oauth function refuses to start without the token signing secret', () => {
+  const secret = Deno.env.get('MCP_TOKEN_SIGNING_SECRET')
+  Deno.env.delete('MCP_TOKEN_SIGNING_SECRET')
+  try {
+    assertThrows(() => createOAuthServer(), Error, 'MCP_TOKEN_SIGNING_SECRET must be set')
+  } finally {
+    if (secret) {
+      Deno.env.set('MCP_TOKEN_SIGNING_SECRET', secret)
+    }
+  }
+})
@@ -0,0 +1,181 @@
+import { assert, assertEquals, assertThrows } from '@std/assert'
+import { Hono } from 'hono'
+import type { McpAuthEnv } from '../_shared/auth.ts'
+import {
+  createMemoryRateLimitStore,
+  createRateLimitMiddleware,
+  getRateLimitConfig,
+  perMinute,
+  type RateLimitConfig,
+  type RateLimitStore,
+} from '../_shared/rate-limit.ts'
+
+Deno.test('memory store: a bucket allows bursts up to its capacity, then refuses', async () => {
+  const store = createMemoryRateLimitStore(() => 0)
+  const limit = { capacity: 3, refillPerSecond: 1 }
+
+  for (let i = 0; i < 3; i++) {
+    assert((await store.consume([{ key: 'user:1', limit }])).allowed)
+  }
+  assertEquals(await store.consume([{ key: 'user:1', limit }]), { allowed: false, retryAfterSeconds: 1, denied: 0 })
+})
+
+Deno.test('memory store: an exhausted bucket refills over time', async () => {
+  let now = 0
+  const store = createMemoryRateLimitStore(() => now)
+  const limit = { capacity: 2, refillPerSecond: 0.5 }
+  const consume = (cost = 1) => store.consume([{ key: 'user:1', limit, cost }])
+
+  await consume(2)
+  assertEquals(await consume(), { allowed: false, retryAfterSeconds: 2, denied: 0 })
+
+  now = 1000
+  assertEquals(await consume(), { allowed: false, retryAfterSeconds: 1, denied: 0 })
+
+  now = 2000
+  assert((await consume()).allowed)
+
+  // Refills stop at the capacity
+  now = 60_000
+  assert((await consume(2)).allowed)
+  assertEquals((await consume()).allowed, false)
+})
+
+Deno.test('memory store: buckets are kept per key', async () => {
+  const store = createMemoryRateLimitStore(() => 0)
+  const limit = { capacity: 1, refillPerSecond: 1 }
+
+  assert((await store.consume([{ key: 'user:1', limit }])).allowed)
+  assert((await store.consume([{ key: 'user:2', limit }])).allowed)
+  assertEquals((await store.consume([{ key: 'user:1', limit }])).allowed, false)
+})
+
+Deno.test('memory store: daily quotas reset at midnight UTC', async () => {
+  let now = Date.parse('2026-10-19T23:59:00Z')
+  const store = createMemoryRateLimitStore(() => now)
+
+  assert((await store.consume([{ key: 'user:1', dailyQuota: 1 }])).allowed)
+  assertEquals(await store.consume([{ key: 'user:1', dailyQuota: 1 }]), { allowed: false, retryAfterSeconds: 60, denied: 0 })
+
+  now = Date.parse('2026-10-20T00:00:00Z')
+  assert((await store.consume([{ key: 'user:1', dailyQuota: 1 }])).allowed)
+})
+
+Deno.test('memory store: a refused request uses up none of its buckets and quotas', async () => {
+  const store = createMemoryRateLimitStore(() => 0)
+  const user = { key: 'user:1', limit: { capacity: 2, refillPerSecond: 1 } }
+  const tool = { key: 'tool:1:add', limit: { capacity: 1, refillPerSecond: 0.1 } }
+  const quota = { key: 'user:1', dailyQuota: 2 }
+
+  assert((await store.consume([user, tool, quota])).allowed)
+  assertEquals(await store.consume([user, tool, quota]), { allowed: false, retryAfterSeconds: 10, denied: 1 })
+
+  // The refused request left the user's bucket and quota as they were
+  assert((await store.consume([user, quota])).allowed)
+})
+
+Deno.test('perMinute refills the whole burst over a minute', () => {
+  assertEquals(perMinute(120), { capacity: 120, refillPerSecond: 2 })
+})
+
+Deno.test('getRateLimitConfig: empty values use the defaults, zero disables and others are refused', () => {
+  Deno.env.set('RATE_LIMIT_USER_PER_MINUTE', '')
+  Deno.env.set('RATE_LIMIT_CLIENT_PER_MINUTE', '0')
+  try {
+    const config = getRateLimitConfig()
+    assertEquals(config.user, perMinute(120))
+    assertEquals(config.client, undefined)
+
+    Deno.env.set('RATE_LIMIT_CLIENT_PER_MINUTE', 'unlimited')
+    assertThrows(() => getRateLimitConfig(), Error, 'RATE_LIMIT_CLIENT_PER_MINUTE must be a number')
+  } finally {
+    Deno.env.delete('RATE_LIMIT_USER_PER_MINUTE')
+    Deno.env.delete('RATE_LIMIT_CLIENT_PER_MINUTE')
+  }
+})
+
+/**
+ * An MCP endpoint behind the rate limits, with the caller the auth
+ * middleware would have identified
+ */
+function createApp(config: RateLimitConfig) {
+  const app = new Hono<McpAuthEnv>()
+  app.use('/mcp', async (c, next) => {
+    c.set('user', { id: 'user-1', app_metadata: {}, user_metadata: {} })
+    c.set('authInfo', { token: 'token', clientId: 'client-1', scopes: [] })
+    await next()
+  })
+  app.use('/mcp', createRateLimitMiddleware(config))
+  app.post('/mcp', (c) => c.json({ jsonrpc: '2.0', result: {}, id: 1 }))
+  return app
+}
+
+function post(app: Hono<McpAuthEnv>, body: unknown) {
+  return app.request('/mcp', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const toolCall = (id: number) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'add', arguments: {} } })
+
+Deno.test('middleware: answers a limited tool call with a JSON-RPC error and Retry-After', async () => {
+  const app = createApp({ tool: { capacity: 1, refillPerSecond: 0.1 }, store: createMemoryRateLimitStore(() => 0) })
+
+  assertEquals((await post(app, toolCall(1))).status, 200)
+
+  const response = await post(app, toolCall(2))
+  assertEquals(response.status, 429)
+  assertEquals(response.headers.get('Retry-After'), '10')
+  assertEquals(await response.json(), {
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Rate limit exceeded (tool add), retry in 10s', data: { retryAfter: 10 } },
+    id: 2,
+  })
+})
+
+Deno.test('middleware: answers a limited batch of tool calls with a null id', async () => {
+  const app = createApp({ user: { capacity: 1, refillPerSecond: 1 }, store: createMemoryRateLimitStore(() => 0) })
+
+  await post(app, toolCall(1))
+  const response = await post(app, [toolCall(2), toolCall(3)])
+  assertEquals(response.status, 429)
+  assertEquals((await response.json()).id, null)
+})
+
+Deno.test('middleware: answers other limited requests with an OAuth-style error', async () => {
+  const app = createApp({ client: { capacity: 1, refillPerSecond: 1 }, store: createMemoryRateLimitStore(() => 0) })
+  const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }
+
+  await post(app, initialize)
+  const response = await post(app, initialize)
+  assertEquals(response.status, 429)
+  assertEquals(response.headers.get('Retry-After'), '1')
+  assertEquals(await response.json(), {
+    error: 'rate_limited',
+    error_description: 'Rate limit exceeded (client), retry in 1s',
+  })
+})
+
+Deno.test('middleware: lets requests through when the store is unreachable', async () => {
+  const failing: RateLimitStore = {
+    consume: () => Promise.reject(new Error('connection refused')),
+  }
+  const app = createApp({ user: perMinute(1), dailyQuota: { user: 1 }, store: failing })
+
+  assertEquals((await post(app, toolCall(1))).status, 200)
+  assertEquals((await post(app, toolCall(2))).status, 200)
+})
+
+Deno.test('middleware: a request refused by one limit counts against none of the others', async () => {
+  const app = createApp({
+    user: { capacity: 2, refillPerSecond: 0.1 },
+    tool: { capacity: 1, refillPerSecond: 0.1 },
+    store: createMemoryRateLimitStore(() => 0),
+  })
+
+  assertEquals((await post(app, toolCall(1))).status, 200)
+  assertEquals((await post(app, toolCall(2))).status, 429)
+  assertEquals((await post(app, { jsonrpc: '2.0', id: 3, method: 'initialize', params: {} })).status, 200)
+})
@@ -0,0 +1,89 @@
+import { assertEquals, assertThrows } from '@std/assert'
+import { createClient } from '@supabase/supabase-js'
+import { getRefreshTokenPolicy, refreshTokens } from '../_shared/refresh-tokens.ts'
+import { startStubServer } from './helpers.ts'
+
+const POLICY = { rotation: true, reuseIntervalSeconds: 10 }
+const CLIENT = { clientId: 'client-1' }
+
+/**
+ * PostgREST holding one refresh token, and Supabase Auth answering refreshes
+ * of the session behind it with `upstream`
+ */
+function startSupabase(upstream: () => Response) {
+  const updates: { query: string; body: Record<string, unknown> }[] = []
+  const server = startStubServer(async (request) => {
+    const url = new URL(request.url)
+
+    if (url.pathname === '/auth/v1/token') {
+      return upstream()
+    }
+    if (url.pathname === '/rest/v1/oauth_refresh_tokens' && request.method === 'GET') {
+      return Response.json({
+        token_hash: 'hash',
+        family_id: 'family-1',
+        client_id: CLIENT.clientId,
+        user_id: 'user-1',
+        scope: 'mcp:tools',
+        upstream_refresh_token: 'supabase-refresh-token',
+        rotated_at: null,
+        revoked_at: null,
+      })
+    }
+    if (url.pathname === '/rest/v1/oauth_refresh_tokens' && request.method === 'PATCH') {
+      updates.push({ query: url.search, body: await request.json() })
+      return Response.json({ token_hash: 'hash' })
+    }
+    return Response.json([])
+  })
+
+  Deno.env.set('SUPABASE_URL', server.url)
+  Deno.env.set('SUPABASE_ANON_KEY', 'anon-key')
+  const supabase = createClient(server.url, 'service-role-key', { auth: { persistSession: false } })
+  return { server, supabase, updates }
+}
+
+Deno.test('refresh: an ended upstream session revokes the family', async () => {
+  const { server, supabase, updates } = startSupabase(() =>
+    Response.json({ error_code: 'refresh_token_not_found', msg: 'Invalid Refresh Token: Refresh Token Not Found' }, { status: 400 })
+  )
+  try {
+    const result = await refreshTokens(supabase, { refreshToken: 'token', client: CLIENT }, POLICY)
+
+    assertEquals(result.valid, false)
+    assertEquals(result.errorCode, 'invalid_grant')
+    assertEquals(updates.at(-1)?.query.includes('family_id=eq.family-1'), true)
+    assertEquals(typeof updates.at(-1)?.body.revoked_at, 'string')
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('refresh: other upstream failures can be retried with the same token', async () => {
+  const { server, supabase, updates } = startSupabase(() =>
+    Response.json({ error_code: 'over_request_rate_limit', msg: 'Request rate limit reached' }, { status: 429 })
+  )
+  try {
+    const result = await refreshTokens(supabase, { refreshToken: 'token', client: CLIENT }, POLICY)
+
+    assertEquals(result.valid, false)
+    assertEquals(result.errorCode, 'server_error')
+    // Rotated, then restored, and the family left alone
+    assertEquals(updates.map(({ body }) => Object.keys(body)), [['rotated_at'], ['rotated_at']])
+    assertEquals(updates[1].body.rotated_at, null)
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('refresh policy: an empty reuse interval uses the default, and non-numbers are refused', () => {
+  Deno.env.set('REFRESH_TOKEN_REUSE_INTERVAL', '')
+  try {
+    assertEquals(getRefreshTokenPolicy().reuseIntervalSeconds, 10)
+
+    Deno.env.set('REFRESH_TOKEN_REUSE_INTERVAL', '10s')
+    assertThrows(() => getRefreshTokenPolicy(), Error, 'REFRESH_TOKEN_REUSE_INTERVAL must be a number of seconds')
+  } finally {
+    Deno.env.delete('REFRESH_TOKEN_REUSE_INTERVAL')
+  }
+})
@@ -0,0 +1,46 @@
+import { assertEquals, assertThrows } from '@std/assert'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { registerAddTool, registerWhoamiTool } from '../_shared/basic-tools.ts'
+import { NOTES_DATABASE_TOOLS, registerDatabaseTools } from '../_shared/database-tools.ts'
+import { assertScopesCatalogued, SCOPE_CATALOGUE } from '../_shared/scope-catalogue.ts'
+import { getToolScopes } from '../_shared/scopes.ts'
+import { registerTool } from '../_shared/tools.ts'
+
+/**
+ * A server with every tool the MCP functions register
+ */
+function createServer() {
+  const server = new McpServer({ name: 'scope-catalogue-test', version: '1.0.0' })
+  registerAddTool(server)
+  registerWhoamiTool(server)
+  registerDatabaseTools(server, NOTES_DATABASE_TOOLS)
+  return server
+}
+
+Deno.test('scope catalogue: lists exactly the tools that require each scope', () => {
+  const toolScopes = getToolScopes(createServer())
+  assertScopesCatalogued([], toolScopes)
+
+  // And no tool is listed that doesn't exist or doesn't require the scope
+  for (const definition of SCOPE_CATALOGUE) {
+    for (const tool of definition.tools ?? []) {
+      assertEquals(toolScopes.get(tool)?.includes(definition.scope), true, `${tool} (${definition.scope})`)
+    }
+  }
+})
+
+Deno.test('scope catalogue: a tool missing from its scope\'s entry is refused', () => {
+  const server = createServer()
+  registerTool(
+    server,
+    'delete_notes',
+    { description: 'Delete a note', requiredScopes: ['notes:write'] },
+    () => ({ content: [] })
+  )
+
+  assertThrows(
+    () => assertScopesCatalogued([], getToolScopes(server)),
+    Error,
+    'Tools missing from their scope\'s catalogue entry: delete_notes (notes:write)'
+  )
+})
@@ -0,0 +1,169 @@
+import { assert, assertEquals, assertExists } from '@std/assert'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  AggregationTemporality,
+  type DataPoint,
+  InMemoryMetricExporter,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics'
+import { InMemorySpanExporter, type ReadableSpan } from '@opentelemetry/sdk-trace-base'
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { createMcpAuth, type McpAuthEnv } from '../_shared/auth.ts'
+import { getToolScopes } from '../_shared/scopes.ts'
+import { createSessionManager } from '../_shared/sessions.ts'
+import { flushTelemetry, initTelemetry } from '../_shared/telemetry.ts'
+import type { TokenValidator } from '../_shared/token-validators.ts'
+import { registerTool } from '../_shared/tools.ts'
+
+const RESOURCE = 'http://localhost/telemetry/mcp'
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c'
+const TRACEPARENT = `00-${TRACE_ID}-b7ad6b7169203331-01`
+const HEADERS = {
+  Host: 'localhost',
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+}
+
+// Clients are created per request but never called: the validator below
+// reports callers as external, so no revocation or activity lookups happen
+Deno.env.set('SUPABASE_URL', 'http://127.0.0.1:9')
+Deno.env.set('SUPABASE_ANON_KEY', 'anon-key')
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+
+// Providers are global, so every test in this file shares the exporters
+const spanExporter = new InMemorySpanExporter()
+const metricExporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE)
+initTelemetry({
+  serviceName: 'telemetry-test',
+  spanExporter,
+  metricReader: new PeriodicExportingMetricReader({ exporter: metricExporter, exportIntervalMillis: 3_600_000 }),
+})
+
+const acceptAnyToken: TokenValidator = (token) =>
+  Promise.resolve({
+    valid: true,
+    external: true,
+    user: { id: `user-${token}`, role: 'authenticated', app_metadata: {}, user_metadata: {} },
+    claims: { iss: 'https://issuer.example/', sub: `user-${token}`, client_id: 'client-1', scope: 'mcp:tools' },
+  })
+
+function createServer() {
+  const server = new McpServer({ name: 'telemetry-test', version: '1.0.0' })
+  registerTool(
+    server,
+    'add',
+    { description: 'Add two numbers together', inputSchema: { a: z.number(), b: z.number() } },
+    ({ a, b }) => ({ content: [{ type: 'text', text: String(a + b) }] })
+  )
+  return server
+}
+
+/**
+ * An MCP function wired like the real ones: the shared auth stack, then the
+ * session manager
+ */
+function createApp() {
+  const app = new Hono<McpAuthEnv>().basePath('/telemetry')
+  const sessions = createSessionManager({ createServer })
+  app.route(
+    '/',
+    createMcpAuth({
+      resourceUrl: RESOURCE,
+      authServerUrl: 'https://issuer.example/',
+      mcpPath: '/mcp',
+      toolScopes: getToolScopes(createServer()),
+      tokenValidator: acceptAnyToken,
+      diagnostics: false,
+      corsOrigins: [],
+    })
+  )
+  app.on(['POST', 'GET', 'DELETE'], '/mcp', (c) => sessions.handleRequest(c))
+  return app
+}
+
+function post(app: Hono<McpAuthEnv>, body: unknown, headers: Record<string, string> = {}) {
+  return app.request(RESOURCE, { method: 'POST', headers: { ...HEADERS, ...headers }, body: JSON.stringify(body) })
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+}
+
+/**
+ * Start a session and call the `add` tool, continuing TRACEPARENT's trace
+ */
+async function callTool(app: Hono<McpAuthEnv>) {
+  const auth = { Authorization: 'Bearer token-1' }
+  const initialized = await post(app, initialize, auth)
+  await initialized.text()
+  const sessionId = initialized.headers.get('Mcp-Session-Id')
+  assertExists(sessionId)
+
+  const called = await post(
+    app,
+    { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'add', arguments: { a: 1, b: 2 } } },
+    { ...auth, 'Mcp-Session-Id': sessionId, 'MCP-Protocol-Version': '2025-06-18', traceparent: TRACEPARENT }
+  )
+  assertEquals(called.status, 200)
+  await called.text()
+}
+
+function findSpan(spans: ReadableSpan[], name: string, traceId = TRACE_ID): ReadableSpan {
+  const span = spans.find((candidate) => candidate.name === name && candidate.spanContext().traceId === traceId)
+  assertExists(span, `No ${name} span in trace ${traceId}`)
+  return span
+}
+
+function metricPoints(name: string): DataPoint<unknown>[] {
+  // Cumulative temporality: the latest export holds the totals so far
+  return (metricExporter.getMetrics().at(-1)?.scopeMetrics ?? [])
+    .flatMap((scopeMetrics) => scopeMetrics.metrics)
+    .filter((metric) => metric.descriptor.name === name)
+    .flatMap((metric): DataPoint<unknown>[] => metric.dataPoints)
+}
+
+Deno.test('auth, transport and tool spans nest under the server span of the continued trace', async () => {
+  spanExporter.reset()
+  await callTool(createApp())
+  await flushTelemetry()
+
+  const spans = spanExporter.getFinishedSpans()
+  const server = findSpan(spans, 'POST /telemetry/mcp')
+  const auth = findSpan(spans, 'mcp.auth.validate_token')
+  const transport = findSpan(spans, 'mcp.transport.handle_request')
+  const tool = findSpan(spans, 'tools/call add')
+
+  // The client's span is the server span's parent
+  assertEquals(server.parentSpanContext?.spanId, 'b7ad6b7169203331')
+  assertEquals(auth.parentSpanContext?.spanId, server.spanContext().spanId)
+  assertEquals(transport.parentSpanContext?.spanId, server.spanContext().spanId)
+  assertEquals(tool.parentSpanContext?.spanId, transport.spanContext().spanId)
+
+  assertEquals(server.attributes['enduser.id'], 'user-token-1')
+  assertEquals(server.attributes['http.response.status_code'], 200)
+  assertEquals(tool.attributes['mcp.tool.name'], 'add')
+  assertEquals(tool.attributes['oauth.client.id'], 'client-1')
+})
+
+Deno.test('records auth failures, auth duration and tool duration', async () => {
+  const app = createApp()
+  const missing = await post(app, initialize)
+  assertEquals(missing.status, 401)
+  await missing.text()
+  await callTool(app)
+  await flushTelemetry()
+
+  const failures = metricPoints('mcp.auth.failures')
+  assert(failures.some((point) => point.attributes['mcp.auth.failure_reason'] === 'missing_token' && point.value === 1))
+
+  const authDurations = metricPoints('mcp.auth.duration')
+  assert(authDurations.some((point) => point.attributes.valid === true))
+
+  const toolDurations = metricPoints('mcp.tool.duration')
+  assertEquals(toolDurations.length, 1)
+  assertEquals(toolDurations[0].attributes, { 'mcp.tool.name': 'add', 'mcp.tool.outcome': 'ok' })
+})
@@ -0,0 +1,291 @@
+import { assert, assertEquals, assertExists } from '@std/assert'
+import { decodeJwt } from 'jose'
+import { createIntrospectionTokenValidator, createOidcTokenValidator } from '../_shared/token-validators.ts'
+import { createSigningKey, signToken, startStubServer, type SigningKey, type StubServer } from './helpers.ts'
+
+const RESOURCE = 'http://localhost:54321/functions/v1/mcp'
+
+/**
+ * A mock OpenID Connect issuer publishing its discovery document and keys
+ */
+async function startIssuer(options: { discoveredIssuer?: string } = {}) {
+  const key = await createSigningKey('issuer-key')
+  const issuer: StubServer & { key: SigningKey; issuer: string } = Object.assign(
+    startStubServer((request) => {
+      const { pathname } = new URL(request.url)
+      if (pathname === '/.well-known/openid-configuration') {
+        return Response.json({ issuer: options.discoveredIssuer ?? issuer.issuer, jwks_uri: `${issuer.url}/jwks.json` })
+      }
+      if (pathname === '/jwks.json') {
+        return Response.json({ keys: [key.jwk] })
+      }
+      return new Response('Not found', { status: 404 })
+    }),
+    { key, issuer: '' }
+  )
+  issuer.issuer = `${issuer.url}/`
+  return issuer
+}
+
+Deno.test('OIDC: passes a valid token through as a third-party identity', async () => {
+  const issuer = await startIssuer()
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE], scopeClaim: 'permissions' })
+    const token = await signToken(issuer.key, {
+      iss: issuer.issuer,
+      sub: 'auth0|12345',
+      aud: [RESOURCE, `${issuer.url}/userinfo`],
+      azp: 'client-1',
+      permissions: ['mcp:tools', 'notes:read'],
+    })
+
+    const result = await validate(token)
+    assert(result.valid)
+    assertEquals(result.external, true)
+    assertEquals(result.user?.id, 'auth0|12345')
+    assertEquals(result.claims?.scope, 'mcp:tools notes:read')
+    assertEquals(result.claims?.client_id, 'client-1')
+    assertEquals(result.supabaseToken, undefined)
+  } finally {
+    await issuer.close()
+  }
+})
+
+Deno.test('OIDC: rejects a token for another audience', async () => {
+  const issuer = await startIssuer()
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE] })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'user-1', aud: 'https://api.example' })
+
+    assertEquals((await validate(token)).reason, 'wrong_audience')
+  } finally {
+    await issuer.close()
+  }
+})
+
+Deno.test('OIDC: reads the audience from another claim when configured', async () => {
+  const issuer = await startIssuer()
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: ['app-client'], audienceClaim: 'client_id' })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'user-1', client_id: 'app-client' })
+
+    assert((await validate(token)).valid)
+  } finally {
+    await issuer.close()
+  }
+})
+
+Deno.test('OIDC: rejects a token from another issuer', async () => {
+  const issuer = await startIssuer()
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE] })
+    const token = await signToken(issuer.key, { iss: 'https://evil.example/', sub: 'user-1', aud: RESOURCE })
+
+    assertEquals(await validate(token), { valid: false, reason: 'invalid', error: 'Invalid "iss" claim' })
+  } finally {
+    await issuer.close()
+  }
+})
+
+Deno.test('OIDC: reports a discovery document for another issuer as unavailable', async () => {
+  const issuer = await startIssuer({ discoveredIssuer: 'https://evil.example/' })
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE] })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'user-1', aud: RESOURCE })
+
+    assertEquals((await validate(token)).reason, 'unavailable')
+  } finally {
+    await issuer.close()
+  }
+})
+
+/**
+ * A mock RFC 7662 introspection endpoint answering with `respond`
+ */
+function startIntrospection(respond: (token: string) => Response) {
+  const authorizations: (string | null)[] = []
+  const server = startStubServer(async (request) => {
+    authorizations.push(request.headers.get('Authorization'))
+    const body = new URLSearchParams(await request.text())
+    return respond(body.get('token') ?? '')
+  })
+  const validate = createIntrospectionTokenValidator({
+    introspectionEndpoint: `${server.url}/introspect`,
+    clientId: 'resource-server',
+    clientSecret: 's3cret',
+    issuer: 'https://issuer.example/',
+    audiences: [RESOURCE],
+  })
+  return { server, validate, authorizations }
+}
+
+Deno.test('introspection: accepts an active token and caches the answer', async () => {
+  const exp = Math.floor(Date.now() / 1000) + 3600
+  const { server, validate, authorizations } = startIntrospection(() =>
+    Response.json({ active: true, sub: 'user-1', aud: RESOURCE, scope: 'mcp:tools', client_id: 'client-1', exp })
+  )
+  try {
+    const result = await validate('opaque-token')
+    assert(result.valid)
+    assertEquals(result.external, true)
+    assertEquals(result.claims?.iss, 'https://issuer.example/')
+    assertEquals(result.claims?.scope, 'mcp:tools')
+    assertEquals(authorizations, [`Basic ${btoa('resource-server:s3cret')}`])
+
+    assert((await validate('opaque-token')).valid)
+    assertEquals(server.requests.length, 1)
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('introspection: rejects an inactive token', async () => {
+  const { server, validate } = startIntrospection(() => Response.json({ active: false }))
+  try {
+    assertEquals(await validate('opaque-token'), { valid: false, reason: 'invalid', error: 'Token is not active' })
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('introspection: rejects a token for another audience', async () => {
+  const { server, validate } = startIntrospection(() => Response.json({ active: true, sub: 'user-1', aud: 'https://api.example' }))
+  try {
+    assertEquals((await validate('opaque-token')).reason, 'wrong_audience')
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('introspection: reports a response that is not JSON as unavailable', async () => {
+  const { server, validate } = startIntrospection(() => new Response('<html>Bad gateway</html>', { status: 200 }))
+  try {
+    assertEquals((await validate('opaque-token')).reason, 'unavailable')
+  } finally {
+    await server.close()
+  }
+})
+
+Deno.test('introspection: reports an error status as unavailable', async () => {
+  const { server, validate } = startIntrospection(() => new Response(null, { status: 503 }))
+  try {
+    assertEquals((await validate('opaque-token')).reason, 'unavailable')
+  } finally {
+    await server.close()
+  }
+})
+
+/**
+ * Supabase stub holding the identity links, where another request links the
+ * identity first when `raceWith` is set
+ */
+function startSupabase(options: { linkedUserId?: string; raceWith?: string } = {}) {
+  let linked = options.linkedUserId
+  const deleted: string[] = []
+  const server = startStubServer(async (request) => {
+    const { pathname } = new URL(request.url)
+    if (pathname === '/rest/v1/oauth_external_identities' && request.method === 'GET') {
+      return Response.json(linked ? [{ user_id: linked }] : [])
+    }
+    if (pathname === '/rest/v1/oauth_external_identities' && request.method === 'POST') {
+      if (options.raceWith) {
+        linked = options.raceWith
+        return Response.json(
+          { code: '23505', message: 'duplicate key value violates unique constraint', details: null, hint: null },
+          { status: 409 }
+        )
+      }
+      linked = (await request.json()).user_id
+      return new Response(null, { status: 201 })
+    }
+    if (pathname === '/auth/v1/admin/users' && request.method === 'POST') {
+      return Response.json({ id: '33333333-3333-3333-3333-333333333333', aud: 'authenticated', app_metadata: {} })
+    }
+    if (pathname.startsWith('/auth/v1/admin/users/') && request.method === 'DELETE') {
+      deleted.push(pathname.split('/').pop()!)
+      return Response.json({})
+    }
+    return new Response('Not found', { status: 404 })
+  })
+
+  Deno.env.set('SUPABASE_URL', server.url)
+  Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+  Deno.env.set('MCP_TOKEN_SIGNING_SECRET', 'super-secret-jwt-token-with-at-least-32-characters')
+  return { server, deleted }
+}
+
+Deno.test('linked user: acts as the linked Supabase user', async () => {
+  const issuer = await startIssuer()
+  const supabase = startSupabase({ linkedUserId: '11111111-1111-1111-1111-111111111111' })
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE], identity: 'linked-user' })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'linked-subject', aud: RESOURCE })
+
+    const result = await validate(token)
+    assert(result.valid)
+    assertEquals(result.user?.id, '11111111-1111-1111-1111-111111111111')
+    assertExists(result.supabaseToken)
+    const downstream = decodeJwt(result.supabaseToken)
+    assertEquals(downstream.sub, '11111111-1111-1111-1111-111111111111')
+    assertEquals(downstream.aud, 'authenticated')
+  } finally {
+    await supabase.server.close()
+    await issuer.close()
+  }
+})
+
+Deno.test('linked user: rejects an identity nobody is linked to', async () => {
+  const issuer = await startIssuer()
+  const supabase = startSupabase()
+  try {
+    const validate = createOidcTokenValidator({ issuer: issuer.issuer, audiences: [RESOURCE], identity: 'linked-user' })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'unlinked-subject', aud: RESOURCE })
+
+    assertEquals((await validate(token)).error, 'No user is linked to this identity')
+  } finally {
+    await supabase.server.close()
+    await issuer.close()
+  }
+})
+
+Deno.test('linked user: provisions and links a user on first sign-in', async () => {
+  const issuer = await startIssuer()
+  const supabase = startSupabase()
+  try {
+    const validate = createOidcTokenValidator({
+      issuer: issuer.issuer,
+      audiences: [RESOURCE],
+      identity: 'linked-user',
+      provisionUsers: true,
+    })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'new-subject', aud: RESOURCE })
+
+    const result = await validate(token)
+    assertEquals(result.user?.id, '33333333-3333-3333-3333-333333333333')
+    assertEquals(supabase.deleted, [])
+  } finally {
+    await supabase.server.close()
+    await issuer.close()
+  }
+})
+
+Deno.test('linked user: deletes its own user when a concurrent request links the identity first', async () => {
+  const issuer = await startIssuer()
+  const supabase = startSupabase({ raceWith: '44444444-4444-4444-4444-444444444444' })
+  try {
+    const validate = createOidcTokenValidator({
+      issuer: issuer.issuer,
+      audiences: [RESOURCE],
+      identity: 'linked-user',
+      provisionUsers: true,
+    })
+    const token = await signToken(issuer.key, { iss: issuer.issuer, sub: 'racing-subject', aud: RESOURCE })
+
+    const result = await validate(token)
+    assertEquals(result.user?.id, '44444444-4444-4444-4444-444444444444')
+    assertEquals(supabase.deleted, ['33333333-3333-3333-3333-333333333333'])
+  } finally {
+    await supabase.server.close()
+    await issuer.close()
+  }
+})
@@ -0,0 +1,64 @@
+-- Example table exposed to MCP clients through the database tool pack
+-- (see supabase/functions/_shared/database-tools.ts). Notes belong to the user
+-- who created them and Row Level Security keeps each user to their own rows.
+
+create table public.notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null,
+  body text,
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index notes_user_id_idx on public.notes (user_id);
+
+alter table public.notes enable row level security;
+
+create policy "Users can read their own notes"
+  on public.notes for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can create their own notes"
+  on public.notes for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can update their own notes"
+  on public.notes for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create function public.set_notes_updated_at()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger notes_set_updated_at
+  before update on public.notes
+  for each row execute function public.set_notes_updated_at();
+
+-- Runs as the caller (security invoker), so RLS applies to the search as well
+create function public.search_notes(query text)
+returns setof public.notes
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select *
+  from public.notes
+  where title ilike '%' || query || '%'
+     or body ilike '%' || query || '%'
+  order by updated_at desc
+  limit 50;
+$$;
@@ -0,0 +1,65 @@
+-- Authorization codes issued by the oauth edge function's callback flow.
+-- Codes are opaque, single-use and short-lived; only their SHA-256 hash is
+-- stored. Each keeps the MCP resource it was requested for (RFC 8707) and the
+-- Supabase session behind it. The session's refresh token is handed over to
+-- the refresh token issued for the code, and cleared from the code when it is
+-- redeemed. Only the service role (the edge function) may read or write them.
+
+create table public.oauth_authorization_codes (
+  code_hash text primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id text not null,
+  redirect_uri text not null,
+  code_challenge text not null,
+  code_challenge_method text not null check (code_challenge_method = 'S256'),
+  scope text,
+  resource text,
+  session_id uuid,
+  refresh_token text,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index oauth_authorization_codes_expires_at_idx on public.oauth_authorization_codes (expires_at);
+
+-- RLS with no policies: invisible to anon and authenticated roles
+alter table public.oauth_authorization_codes enable row level security;
+
+revoke all on public.oauth_authorization_codes from anon, authenticated;
+
+-- Mark a code used and hand over its refresh token in one statement, so a
+-- code can be redeemed only once and its refresh token is never left behind
+create function public.redeem_oauth_authorization_code(p_code_hash text)
+returns table (
+  user_id uuid,
+  client_id text,
+  redirect_uri text,
+  code_challenge text,
+  scope text,
+  resource text,
+  session_id uuid,
+  refresh_token text,
+  expires_at timestamptz
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  with claimed as (
+    select c.code_hash, c.refresh_token
+    from public.oauth_authorization_codes c
+    where c.code_hash = p_code_hash
+      and c.used_at is null
+    for update
+  )
+  update public.oauth_authorization_codes c
+  set used_at = now(),
+      refresh_token = null
+  from claimed
+  where c.code_hash = claimed.code_hash
+  returning c.user_id, c.client_id, c.redirect_uri, c.code_challenge, c.scope, c.resource, c.session_id,
+    claimed.refresh_token, c.expires_at;
+$$;
+
+revoke execute on function public.redeem_oauth_authorization_code(text) from public, anon, authenticated;
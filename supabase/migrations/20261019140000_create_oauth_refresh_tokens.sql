@@ -0,0 +1,31 @@
+-- Refresh tokens issued by the oauth edge function's token endpoint.
+-- Tokens are opaque and stored only by hash. Each rotation adds a row to the
+-- same family, so a replayed token can revoke every token descended from the
+-- same authorization. Rows keep the MCP resource their access tokens are
+-- bound to and the Supabase session behind them, whose refresh token never
+-- leaves the server. Only the service role (the edge function) may access them.
+
+create table public.oauth_refresh_tokens (
+  token_hash text primary key,
+  family_id uuid not null,
+  parent_hash text references public.oauth_refresh_tokens (token_hash) on delete set null,
+  authorization_code_hash text,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id text not null,
+  scope text,
+  resource text,
+  session_id uuid,
+  upstream_refresh_token text not null,
+  created_at timestamptz not null default now(),
+  rotated_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index oauth_refresh_tokens_family_id_idx on public.oauth_refresh_tokens (family_id);
+create index oauth_refresh_tokens_parent_hash_idx on public.oauth_refresh_tokens (parent_hash);
+create index oauth_refresh_tokens_authorization_code_hash_idx on public.oauth_refresh_tokens (authorization_code_hash);
+
+-- RLS with no policies: invisible to anon and authenticated roles
+alter table public.oauth_refresh_tokens enable row level security;
+
+revoke all on public.oauth_refresh_tokens from anon, authenticated;
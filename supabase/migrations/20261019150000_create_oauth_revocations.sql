@@ -0,0 +1,120 @@
+-- Grant revocation for MCP clients.
+--
+-- Access tokens are verified locally by the MCP functions, so revoking a
+-- grant in Supabase Auth alone would leave already-issued tokens usable until
+-- they expire. oauth_revocations records what has been revoked, and
+-- is_oauth_token_revoked lets the auth middleware reject those tokens.
+-- oauth_client_activity backs the consent app's "connected apps" page; the
+-- MCP functions record it with touch_oauth_client_activity, created with
+-- oauth_scope_grants, which it reads client names and logos from.
+
+create table public.oauth_revocations (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Revokes every token the client received before revoked_at
+  client_id text,
+  -- Revokes every token of one Supabase Auth session
+  session_id uuid,
+  revoked_at timestamptz not null default now(),
+  check (client_id is not null or session_id is not null)
+);
+
+create index oauth_revocations_user_id_idx on public.oauth_revocations (user_id);
+
+alter table public.oauth_revocations enable row level security;
+
+revoke all on public.oauth_revocations from anon, authenticated;
+
+create table public.oauth_client_activity (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id text not null,
+  client_name text,
+  logo_uri text,
+  scope text,
+  first_used_at timestamptz not null default now(),
+  last_used_at timestamptz not null default now(),
+  primary key (user_id, client_id)
+);
+
+alter table public.oauth_client_activity enable row level security;
+
+create policy "Users can read their own client activity"
+  on public.oauth_client_activity for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+revoke insert, update, delete on public.oauth_client_activity from anon, authenticated;
+
+-- Revoke everything a client holds for a user: refresh token families, the
+-- Supabase sessions behind them, and access tokens issued up to now. Its
+-- activity, remembered consent and granted scopes are forgotten too, so the
+-- client has to ask again. oauth_consents and oauth_scope_grants come from
+-- later migrations; plpgsql only looks tables up when the function runs.
+create function public.revoke_oauth_grant(p_user_id uuid, p_client_id text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  insert into public.oauth_revocations (user_id, client_id)
+  values (p_user_id, p_client_id);
+
+  insert into public.oauth_revocations (user_id, client_id, session_id)
+  select distinct t.user_id, t.client_id, t.session_id
+  from public.oauth_refresh_tokens t
+  where t.user_id = p_user_id
+    and t.client_id = p_client_id
+    and t.session_id is not null
+    and t.revoked_at is null;
+
+  update public.oauth_refresh_tokens
+  set revoked_at = now()
+  where user_id = p_user_id
+    and client_id = p_client_id
+    and revoked_at is null;
+
+  delete from public.oauth_client_activity
+  where user_id = p_user_id
+    and client_id = p_client_id;
+
+  delete from public.oauth_consents
+  where user_id = p_user_id
+    and client_id = p_client_id;
+
+  delete from public.oauth_scope_grants
+  where user_id = p_user_id
+    and client_id = p_client_id;
+end;
+$$;
+
+create function public.is_oauth_token_revoked(
+  p_user_id uuid,
+  p_client_id text,
+  p_session_id uuid,
+  p_issued_at timestamptz
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1
+    from public.oauth_revocations r
+    where r.user_id = p_user_id
+      and (
+        (p_session_id is not null and r.session_id = p_session_id)
+        or (
+          p_client_id is not null
+          and r.client_id = p_client_id
+          and r.session_id is null
+          and r.revoked_at >= p_issued_at
+        )
+      )
+  );
+$$;
+
+revoke execute on function public.revoke_oauth_grant(uuid, text) from public, anon, authenticated;
+revoke execute on function public.is_oauth_token_revoked(uuid, text, uuid, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,37 @@
+-- Remembered consent for MCP clients.
+--
+-- The consent app stores the scopes a user approved for a client, for as long
+-- as the user chose to be remembered. Requests for a subset of those scopes
+-- are approved without showing the consent screen again.
+
+create table public.oauth_consents (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id text not null,
+  scopes text[] not null default '{}',
+  granted_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  primary key (user_id, client_id)
+);
+
+alter table public.oauth_consents enable row level security;
+
+create policy "Users can read their own consents"
+  on public.oauth_consents for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can create their own consents"
+  on public.oauth_consents for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can update their own consents"
+  on public.oauth_consents for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can delete their own consents"
+  on public.oauth_consents for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,18 @@
+-- Clients an administrator has verified.
+--
+-- Anyone can register a client dynamically, so the consent screen marks
+-- clients listed here as verified and warns about every other one. Add rows
+-- with the service role, e.g. from the SQL editor:
+--
+--   insert into public.oauth_verified_clients (client_id, note)
+--   values ('<client id>', 'Official IDE extension');
+
+create table public.oauth_verified_clients (
+  client_id text primary key,
+  note text,
+  verified_at timestamptz not null default now()
+);
+
+alter table public.oauth_verified_clients enable row level security;
+
+revoke all on public.oauth_verified_clients from anon, authenticated;
@@ -0,0 +1,80 @@
+-- Scopes a user actually granted a client.
+--
+-- Supabase Auth approves an authorization request as a whole, so the consent
+-- app records the scopes the user kept checked here. The MCP auth middleware
+-- narrows a token's scopes to this set. Users may only write their own rows,
+-- and writing scopes they were never issued grants nothing, since the token
+-- must carry a scope as well. The client's name and logo are kept with the
+-- grant, so the connections page can show clients whose grant Supabase Auth
+-- no longer lists.
+
+create table public.oauth_scope_grants (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id text not null,
+  scopes text[] not null default '{}',
+  client_name text,
+  logo_uri text,
+  granted_at timestamptz not null default now(),
+  primary key (user_id, client_id)
+);
+
+alter table public.oauth_scope_grants enable row level security;
+
+create policy "Users can read their own scope grants"
+  on public.oauth_scope_grants for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can create their own scope grants"
+  on public.oauth_scope_grants for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can update their own scope grants"
+  on public.oauth_scope_grants for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+-- Record that a client used a grant; called by the MCP auth middleware.
+-- Tokens from the oauth function carry no client_id claim, so the client is
+-- looked up from the refresh token family holding the same session. The name
+-- and logo come from the grant, so the functions never look clients up on the
+-- request path.
+create function public.touch_oauth_client_activity(
+  p_user_id uuid,
+  p_client_id text,
+  p_session_id uuid,
+  p_scope text
+)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.oauth_client_activity (user_id, client_id, client_name, logo_uri, scope)
+  select p_user_id, c.client_id, g.client_name, g.logo_uri, p_scope
+  from (
+    select coalesce(
+      p_client_id,
+      (
+        select t.client_id
+        from public.oauth_refresh_tokens t
+        where t.user_id = p_user_id
+          and t.session_id = p_session_id
+        limit 1
+      )
+    ) as client_id
+  ) c
+  left join public.oauth_scope_grants g
+    on g.user_id = p_user_id
+   and g.client_id = c.client_id
+  where c.client_id is not null
+  on conflict (user_id, client_id) do update
+  set last_used_at = now(),
+      client_name = coalesce(excluded.client_name, public.oauth_client_activity.client_name),
+      logo_uri = coalesce(excluded.logo_uri, public.oauth_client_activity.logo_uri),
+      scope = coalesce(excluded.scope, public.oauth_client_activity.scope);
+$$;
+
+revoke execute on function public.touch_oauth_client_activity(uuid, text, uuid, text) from public, anon, authenticated;
@@ -0,0 +1,122 @@
+-- Rate limit and quota counters for the MCP functions.
+--
+-- Each key is either a token bucket or a counter that resets at midnight UTC.
+-- consume_rate_limits counts a request against several of them at once:
+-- against all of them if every one allows it, and none otherwise, so a
+-- refused request uses nothing up. It is atomic, so every edge function
+-- worker shares the same limits. Only the service role may call it.
+
+create table public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create table public.rate_limit_quotas (
+  key text not null,
+  day date not null,
+  used integer not null default 0,
+  primary key (key, day)
+);
+
+alter table public.rate_limit_buckets enable row level security;
+alter table public.rate_limit_quotas enable row level security;
+
+revoke all on public.rate_limit_buckets from anon, authenticated;
+revoke all on public.rate_limit_quotas from anon, authenticated;
+
+create function public.consume_rate_limits(p_checks jsonb)
+returns table (allowed boolean, retry_after_seconds double precision, denied integer)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_day date := (v_now at time zone 'utc')::date;
+  v_check record;
+  v_cost double precision;
+  v_tokens double precision;
+  v_used integer;
+  v_wait double precision;
+  v_retry_after double precision := 0;
+  v_denied integer;
+begin
+  -- Lock every counter first, buckets then quotas and each in key order, so
+  -- concurrent requests can't deadlock; the rows stay locked until commit
+  for v_check in
+    select value as c, ordinality - 1 as check_index
+    from jsonb_array_elements(p_checks) with ordinality
+    order by value ? 'daily_quota', value->>'key'
+  loop
+    v_cost := coalesce((v_check.c->>'cost')::double precision, 1);
+
+    if v_check.c ? 'daily_quota' then
+      insert into public.rate_limit_quotas (key, day, used)
+      values (v_check.c->>'key', v_day, 0)
+      on conflict (key, day) do nothing;
+
+      select q.used into v_used
+      from public.rate_limit_quotas q
+      where q.key = v_check.c->>'key'
+        and q.day = v_day
+      for update;
+
+      v_wait := case
+        when v_used + v_cost > (v_check.c->>'daily_quota')::integer
+          then extract(epoch from ((v_day + 1)::timestamp at time zone 'utc') - v_now)::double precision
+      end;
+    else
+      -- Refill for the time since the last request
+      insert into public.rate_limit_buckets as b (key, tokens, updated_at)
+      values (v_check.c->>'key', (v_check.c->>'capacity')::double precision, v_now)
+      on conflict (key) do update
+      set tokens = least(
+            excluded.tokens,
+            b.tokens + extract(epoch from v_now - b.updated_at) * (v_check.c->>'refill_per_second')::double precision
+          ),
+          updated_at = v_now
+      returning b.tokens into v_tokens;
+
+      v_wait := case
+        when v_tokens < v_cost then (v_cost - v_tokens) / (v_check.c->>'refill_per_second')::double precision
+      end;
+    end if;
+
+    -- Report the longest wait, after which every check allows the request
+    if v_wait is not null and (v_denied is null or v_wait > v_retry_after) then
+      v_retry_after := v_wait;
+      v_denied := v_check.check_index;
+    end if;
+  end loop;
+
+  if v_denied is not null then
+    return query select false, v_retry_after, v_denied;
+    return;
+  end if;
+
+  for v_check in select value as c from jsonb_array_elements(p_checks) loop
+    v_cost := coalesce((v_check.c->>'cost')::double precision, 1);
+
+    if v_check.c ? 'daily_quota' then
+      update public.rate_limit_quotas
+      set used = used + v_cost::integer
+      where key = v_check.c->>'key'
+        and day = v_day;
+
+      -- Past days are no longer needed
+      delete from public.rate_limit_quotas
+      where key = v_check.c->>'key'
+        and day < v_day;
+    else
+      update public.rate_limit_buckets
+      set tokens = tokens - v_cost
+      where key = v_check.c->>'key';
+    end if;
+  end loop;
+
+  return query select true, 0::double precision, null::integer;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limits(jsonb) from public, anon, authenticated;
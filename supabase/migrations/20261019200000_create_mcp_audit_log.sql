@@ -0,0 +1,55 @@
+-- Audit log of authenticated MCP calls.
+--
+-- The MCP functions write one row per JSON-RPC message through the service
+-- role: who made the call, from which client, the method and tool, redacted
+-- arguments, the outcome and its latency. Users can't read or change the log.
+-- purge_mcp_audit_log deletes rows older than the retention period and is
+-- called by the functions themselves (AUDIT_RETENTION_DAYS).
+
+create table public.mcp_audit_log (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  request_id uuid not null,
+  function_name text not null,
+  -- No foreign key: entries outlive deleted users until they are purged. Text,
+  -- since callers passed through with EXTERNAL_IDENTITY=third-party are
+  -- identified by their issuer's subject, which need not be a UUID
+  user_id text not null,
+  client_id text,
+  mcp_session_id text,
+  http_method text not null,
+  method text,
+  tool_name text,
+  jsonrpc_id text,
+  arguments jsonb,
+  http_status integer not null,
+  status text not null check (status in ('ok', 'error', 'tool_error', 'accepted')),
+  error text,
+  latency_ms integer not null
+);
+
+create index mcp_audit_log_user_id_created_at_idx on public.mcp_audit_log (user_id, created_at);
+create index mcp_audit_log_created_at_idx on public.mcp_audit_log (created_at);
+
+alter table public.mcp_audit_log enable row level security;
+
+revoke all on public.mcp_audit_log from anon, authenticated;
+
+create function public.purge_mcp_audit_log(p_retention_days integer)
+returns integer
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_deleted integer;
+begin
+  delete from public.mcp_audit_log
+  where created_at < now() - make_interval(days => p_retention_days);
+
+  get diagnostics v_deleted = row_count;
+  return v_deleted;
+end;
+$$;
+
+revoke execute on function public.purge_mcp_audit_log(integer) from public, anon, authenticated;
@@ -0,0 +1,26 @@
+-- Identities from third-party authorization servers linked to Supabase users.
+--
+-- When the MCP functions accept tokens from another issuer (TOKEN_VALIDATOR
+-- set to oidc or introspection) with EXTERNAL_IDENTITY=linked-user, each
+-- issuer and subject pair is mapped to a Supabase user here, and tool calls
+-- run as that user under RLS. Rows are written by the functions with the
+-- service role; users can see which identities are linked to them.
+
+create table public.oauth_external_identities (
+  issuer text not null,
+  subject text not null,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (issuer, subject)
+);
+
+create index oauth_external_identities_user_id_idx on public.oauth_external_identities (user_id);
+
+alter table public.oauth_external_identities enable row level security;
+
+create policy "Users can read their own external identities"
+  on public.oauth_external_identities for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+revoke insert, update, delete on public.oauth_external_identities from anon, authenticated;